@@ -1,43 +1,181 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import ApiKeyModal from './components/ApiKeyModal';
 import CreatorStudio from './components/CreatorStudio';
 import SmartPlayer from './components/SmartPlayer';
-import { GeneratedVideo, GenerationStatus, AspectRatio } from './types';
-import { generateVideoWorkflow } from './services/geminiService';
+import VideoHistory from './components/VideoHistory';
+import StoryboardEditor from './components/StoryboardEditor';
+import ScriptReview from './components/ScriptReview';
+import GenerationProgressPanel from './components/GenerationProgressPanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import PromptPanel from './components/PromptPanel';
+import BatchPanel from './components/BatchPanel';
+import { GeneratedVideo, GenerationStatus, AspectRatio, VideoScript, AssetJobStatus, GenerationProgress, VoiceSettings, CaptionStyle, ProviderSettings } from './types';
+import { countAssets, createDraftVideo, generateMissingAssets, planVideoScript } from './services/geminiService';
+import { createRunLog } from './services/runLog';
+import { isAbortError } from './services/retry';
+import { ERROR_TITLES, GenerationError, toGenerationError } from './services/errors';
+import { saveProject } from './services/projectStore';
+import { hasErrors, validateScript } from './services/scriptValidation';
+import { createBatchQueue } from './services/batchQueue';
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<GenerationStatus>(GenerationStatus.IDLE);
   const [progressMsg, setProgressMsg] = useState<string>('');
   const [currentVideo, setCurrentVideo] = useState<GeneratedVideo | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [isEditingStoryboard, setIsEditingStoryboard] = useState(false);
+  const [script, setScript] = useState<VideoScript | null>(null);
+  // Last partial video from the asset phase; lets a failed or cancelled run resume
+  const [checkpoint, setCheckpoint] = useState<GeneratedVideo | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [jobs, setJobs] = useState<Record<string, AssetJobStatus>>({});
+  const [lastJobMessage, setLastJobMessage] = useState('');
+  const [runError, setRunError] = useState<GenerationError | null>(null);
+  const [runLog, setRunLog] = useState(() => createRunLog(''));
+  // Lives as long as the app, so a batch keeps running while a finished video is open
+  const [batchQueue] = useState(() => createBatchQueue(() => setLibraryVersion(v => v + 1)));
 
+  // Every run gets a fresh request log for the diagnostics panel
+  const startRun = (title: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const log = createRunLog(title);
+    setRunLog(log);
+    setRunError(null);
+    return { signal: controller.signal, log };
+  };
+
+  const failRun = (error: unknown) => {
+    setStatus(GenerationStatus.FAILED);
+    if (isAbortError(error)) {
+      setProgressMsg('Generation cancelled.');
+    } else {
+      console.error(error);
+      const generationError = toGenerationError(error);
+      setRunError(generationError);
+      setProgressMsg(`${ERROR_TITLES[generationError.kind]}: ${generationError.message}`);
+    }
+  };
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleProgress = (progress: GenerationProgress) => {
+    const { job } = progress;
+    if (job) {
+      setJobs(prev => ({ ...prev, [`${job.sceneIndex}-${job.kind}`]: job }));
+    }
+    setLastJobMessage(progress.message);
+    setProgressMsg(progress.stage === 'assets'
+      ? `Generating assets... ${progress.completed}/${progress.total}`
+      : progress.message);
+  };
+
+  const saveAndShow = async (result: GeneratedVideo) => {
+    let video = result;
+    try {
+      video = await saveProject(result);
+      setLibraryVersion(v => v + 1);
+    } catch (saveError) {
+      // The video is still playable, it just won't survive a refresh
+      console.error("Failed to save project", saveError);
+    }
+
+    setCurrentVideo(video);
+    setStatus(GenerationStatus.COMPLETED);
+  };
+
+  // Phase 1: write the script only, then stop for review
   const handleGenerate = async (
     topic: string, 
     style: string, 
     aspectRatio: AspectRatio, 
+    targetDuration: number,
+    voice: VoiceSettings,
+    captionStyle: CaptionStyle,
+    providers: ProviderSettings,
   ) => {
     setStatus(GenerationStatus.PLANNING);
+    setProgressMsg("Planning video script & visuals...");
+    setJobs({});
+
+    try {
+      const { signal, log } = startRun(`Script: ${topic}`);
+      const plan = await planVideoScript(topic, style, aspectRatio, targetDuration, voice, captionStyle, providers, signal, log);
+      // A rewrite keeps the reference images picked for the previous draft
+      setScript(prev => prev
+        ? { ...plan, referenceImages: prev.referenceImages, useFirstImageAsReference: prev.useFirstImageAsReference }
+        : plan);
+      setCheckpoint(null);
+      setStatus(GenerationStatus.SCRIPT_READY);
+      setProgressMsg('');
+    } catch (error) {
+      failRun(error);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  // Phase 2: spend image/TTS quota, checkpointing after every finished asset
+  const runAssetGeneration = async (draft: GeneratedVideo) => {
+    setStatus(GenerationStatus.GENERATING_ASSETS);
     setProgressMsg("Initializing...");
+    setCheckpoint(draft);
+    setJobs({});
+    setLastJobMessage('');
 
     try {
-      const result = await generateVideoWorkflow(
-        topic,
-        style,
-        aspectRatio,
-        (msg) => setProgressMsg(msg)
-      );
-
-      setCurrentVideo(result);
-      setStatus(GenerationStatus.COMPLETED);
+      const result = await generateMissingAssets(draft, handleProgress, {
+        ...startRun(`Assets: ${draft.topic}`),
+        onCheckpoint: setCheckpoint,
+      });
+      setScript(null);
+      setCheckpoint(null);
+      await saveAndShow(result);
     } catch (error) {
-      console.error(error);
-      setStatus(GenerationStatus.FAILED);
-      setProgressMsg('Error: ' + (error as Error).message);
+      // Keep the script and checkpoint around so the run can be resumed
+      failRun(error);
+    } finally {
+      abortRef.current = null;
     }
   };
 
+  // ScriptReview disables approval while the script has errors; this is the backstop
+  const handleApproveScript = () => {
+    if (script && !hasErrors(validateScript(script))) runAssetGeneration(createDraftVideo(script));
+  };
+
+  const handleResume = () => {
+    if (checkpoint) runAssetGeneration(checkpoint);
+  };
+
+  const discardScript = () => {
+    setScript(null);
+    setCheckpoint(null);
+    setStatus(GenerationStatus.IDLE);
+  };
+
   const reset = () => {
     setCurrentVideo(null);
+    setIsEditingStoryboard(false);
     setStatus(GenerationStatus.IDLE);
+    setLibraryVersion(v => v + 1);
+  };
+
+  const openProject = (video: GeneratedVideo) => {
+    setCurrentVideo(video);
+    setIsEditingStoryboard(false);
+    setStatus(GenerationStatus.COMPLETED);
+  };
+
+  const saveStoryboard = async (video: GeneratedVideo) => {
+    let saved = video;
+    try {
+      saved = await saveProject(video);
+    } catch (saveError) {
+      console.error("Failed to save project", saveError);
+    }
+    setCurrentVideo(saved);
+    setIsEditingStoryboard(false);
   };
 
   return (
@@ -82,17 +220,64 @@ const App: React.FC = () => {
                status={status}
                progressMessage={progressMsg}
                onGenerate={handleGenerate}
+               onCancel={handleCancel}
+               onQueueBatch={batchQueue.add}
              />
+
+             <BatchPanel queue={batchQueue} onOpen={openProject} />
+
+             {script && (
+               <ScriptReview
+                 script={script}
+                 isBusy={status === GenerationStatus.PLANNING || status === GenerationStatus.GENERATING_ASSETS}
+                 onChange={setScript}
+                 onRegenerate={() => handleGenerate(script.topic, script.style, script.aspectRatio, script.targetDuration, script.voice, script.captionStyle, script.providers)}
+                 onApprove={handleApproveScript}
+                 onDiscard={discardScript}
+               />
+             )}
              
+             {(status === GenerationStatus.GENERATING_ASSETS || status === GenerationStatus.FAILED) && (
+               <GenerationProgressPanel jobs={Object.values(jobs)} lastMessage={lastJobMessage} />
+             )}
+
              {status === GenerationStatus.FAILED && (
                 <div className="mt-6 p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-center">
                   {progressMsg || "Generation failed. Please try again."}
+                  {checkpoint && (
+                    <div className="mt-3">
+                      <button
+                        onClick={handleResume}
+                        className="bg-white text-black text-sm font-bold px-4 py-2 rounded-lg hover:scale-[1.02] transition-all"
+                      >
+                        Resume ({countAssets(checkpoint).done}/{countAssets(checkpoint).total} assets ready)
+                      </button>
+                    </div>
+                  )}
                 </div>
              )}
+
+             {status === GenerationStatus.FAILED && runError && <DiagnosticsPanel error={runError} log={runLog} />}
+
+             <PromptPanel log={runLog} />
+
+             <VideoHistory refreshKey={libraryVersion} onOpen={openProject} />
           </div>
         ) : (
           <div className="animate-fade-in">
-            <SmartPlayer video={currentVideo} onReset={reset} />
+            {isEditingStoryboard ? (
+              <StoryboardEditor
+                video={currentVideo}
+                onSave={saveStoryboard}
+                onCancel={() => setIsEditingStoryboard(false)}
+              />
+            ) : (
+              <SmartPlayer
+                video={currentVideo}
+                onReset={reset}
+                onEditStoryboard={() => setIsEditingStoryboard(true)}
+              />
+            )}
           </div>
         )}
 
@@ -49,8 +49,15 @@ const ApiKeyModal: React.FC = () => {
           Connect Google Account
         </button>
 
+        <button
+          onClick={() => setHasKey(true)}
+          className="text-sm text-gray-400 hover:text-white"
+        >
+          Continue without Google (other providers or offline mock)
+        </button>
+
         <p className="text-xs text-gray-500 mt-4">
-          This app runs entirely in your browser using the Gemini API.
+          This app runs entirely in your browser using the Gemini API. Other backends can be picked under Models.
         </p>
       </div>
     </div>
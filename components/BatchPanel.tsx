@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedVideo } from '../types';
+import { BatchItem, BatchItemStatus, BatchQueue } from '../services/batchQueue';
+import { ERROR_TITLES, describeErrorContext } from '../services/errors';
+import { getAspectRatioInfo } from '../services/aspectRatios';
+import { findStylePreset } from '../services/stylePresets';
+import { loadProject } from '../services/projectStore';
+import DiagnosticsPanel from './DiagnosticsPanel';
+
+interface BatchPanelProps {
+  queue: BatchQueue;
+  onOpen: (video: GeneratedVideo) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-800 text-gray-400' },
+  planning: { label: 'Planning', className: 'bg-blue-900/40 text-blue-200' },
+  generating: { label: 'Generating', className: 'bg-blue-900/40 text-blue-200' },
+  paused: { label: 'Paused', className: 'bg-yellow-900/40 text-yellow-200' },
+  done: { label: 'Done', className: 'bg-green-900/40 text-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-900/40 text-red-200' },
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ queue, onOpen }) => {
+  const [items, setItems] = useState<BatchItem[]>(queue.getItems);
+  const [openError, setOpenError] = useState('');
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItems(queue.getItems());
+    return queue.subscribe(() => setItems(queue.getItems()));
+  }, [queue]);
+
+  if (items.length === 0) return null;
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpen(await loadProject(id));
+    } catch (e) {
+      console.error("Failed to open project", e);
+      setOpenError("That video is no longer in your library.");
+    }
+  };
+
+  const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const actionClass = "text-xs text-gray-400 hover:text-white px-2 py-1 rounded hover:bg-white/5 transition-colors";
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 mt-6 border border-gray-700/50 flex flex-col gap-3 text-sm">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex flex-col gap-1">
+          <span className={labelClass}>Batch</span>
+          <span className="text-xs text-gray-400">
+            {count('done')}/{items.length} done
+            {count('failed') > 0 && <span className="text-red-300"> · {count('failed')} failed</span>}
+          </span>
+        </div>
+        {count('done') > 0 && (
+          <button onClick={queue.clearFinished} className={actionClass}>Clear finished</button>
+        )}
+      </div>
+
+      {openError && <p className="text-xs text-red-300">{openError}</p>}
+
+      <div className="flex flex-col divide-y divide-gray-800">
+        {items.map(item => {
+          const status = STATUS_STYLES[item.status];
+          const context = item.error && describeErrorContext(item.error);
+          return (
+            <div key={item.id} className="flex items-start gap-3 py-2">
+              <span className={`px-2 py-0.5 rounded text-[11px] flex-shrink-0 w-20 text-center ${status.className}`}>
+                {status.label}
+              </span>
+              <div className="flex flex-col min-w-0 flex-1">
+                <span className="text-white truncate" title={item.topic}>{item.topic}</span>
+                <span className="text-xs text-gray-500">
+                  {findStylePreset(item.style)?.name || item.style} · {getAspectRatioInfo(item.aspectRatio).desc} · {item.targetDuration}s
+                  {item.message && ` · ${item.message}`}
+                </span>
+                {item.error && (
+                  <span className="text-xs text-red-300 break-words" title={item.error.suggestion}>
+                    {ERROR_TITLES[item.error.kind]}{context && ` (${context})`}: {item.error.message}
+                    {item.log && (
+                      <button
+                        onClick={() => setDetailsId(id => (id === item.id ? null : item.id))}
+                        className="ml-2 text-blue-400 hover:text-blue-300"
+                      >
+                        {detailsId === item.id ? 'Hide details' : 'Details'}
+                      </button>
+                    )}
+                  </span>
+                )}
+                {item.error && item.log && detailsId === item.id && <DiagnosticsPanel error={item.error} log={item.log} />}
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                {(item.status === 'queued' || item.status === 'planning' || item.status === 'generating') && (
+                  <button onClick={() => queue.pause(item.id)} className={actionClass}>⏸ Pause</button>
+                )}
+                {item.status === 'paused' && (
+                  <button onClick={() => queue.resume(item.id)} className={actionClass}>▶ Resume</button>
+                )}
+                {item.status === 'failed' && (
+                  <button onClick={() => queue.resume(item.id)} className={actionClass}>↻ Retry</button>
+                )}
+                {item.status === 'done' && item.videoId && (
+                  <button onClick={() => handleOpen(item.videoId!)} className="text-xs text-blue-400 hover:text-blue-300 px-2 py-1">Open</button>
+                )}
+                {item.status !== 'done' && (
+                  <button onClick={() => queue.remove(item.id)} className={actionClass} title="Remove from the batch">✕</button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef } from 'react';
+import { AspectRatio, CaptionPosition, CaptionStyle, GeneratedVideo, VIDEO_SCHEMA_VERSION } from '../types';
+import { CAPTION_FONTS, CAPTION_PRESETS } from '../services/captionStyles';
+import { drawFrame } from '../services/videoRenderer';
+import { getFrameSize } from '../services/aspectRatios';
+
+interface CaptionStylePanelProps {
+  value: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+  aspectRatio: AspectRatio;
+  disabled?: boolean;
+}
+
+const POSITIONS: { id: CaptionPosition; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'middle', label: 'Middle' },
+  { id: 'bottom', label: 'Bottom' },
+];
+
+const PREVIEW_TEXT = 'Your captions will look exactly like this';
+const PREVIEW_DURATION = 4;
+
+const CaptionStylePanel: React.FC<CaptionStylePanelProps> = ({ value, onChange, aspectRatio, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const update = (patch: Partial<CaptionStyle>) => onChange({ ...value, ...patch, presetId: 'custom' });
+  const updateSafeArea = (patch: Partial<CaptionStyle['safeArea']>) =>
+    update({ safeArea: { ...value.safeArea, ...patch } });
+
+  // Live preview through the real renderer, frozen on the second word so the highlight shows
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const preview: GeneratedVideo = {
+      id: 'caption-preview',
+      schemaVersion: VIDEO_SCHEMA_VERSION,
+      topic: '',
+      style: '',
+      aspectRatio,
+      captionStyle: value,
+      segments: [{
+        id: 'caption-preview',
+        text: PREVIEW_TEXT,
+        imagePrompt: '',
+        imageData: '',
+        audioData: '',
+        duration: PREVIEW_DURATION,
+        imageTakes: [],
+        audioTakes: [],
+      }],
+      timestamp: 0,
+    };
+    drawFrame(ctx, canvas.width, canvas.height, preview, [], {
+      segmentIndex: 0,
+      segmentTime: 0.6,
+      segmentDuration: PREVIEW_DURATION,
+      totalProgress: 0.15,
+    });
+  }, [value, aspectRatio]);
+
+  const previewSize = getFrameSize(aspectRatio, 180);
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg border text-sm font-medium transition-all ${
+      active
+        ? 'bg-blue-600/20 border-blue-500 text-white'
+        : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const selectClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const colorClass = "w-8 h-8 rounded border border-gray-700 bg-transparent cursor-pointer disabled:cursor-default";
+
+  const slider = (label: string, val: number, min: number, max: number, step: number, onSet: (v: number) => void, format: (v: number) => string) => (
+    <label className="flex flex-col gap-1">
+      <span className={labelClass}>{label} <span className="text-gray-500 normal-case">{format(val)}</span></span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={val}
+        onChange={(e) => onSet(Number(e.target.value))}
+        disabled={disabled}
+        className="accent-blue-500"
+      />
+    </label>
+  );
+
+  const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-2">
+        {CAPTION_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.style)}
+            disabled={disabled}
+            className={optionClass(value.presetId === preset.id)}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <canvas
+          ref={canvasRef}
+          width={previewSize.width}
+          height={previewSize.height}
+          className="rounded-lg border border-gray-700 flex-shrink-0"
+        />
+
+        <div className="flex-1 grid grid-cols-2 gap-3 min-w-0">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Font</span>
+            <select
+              value={value.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {CAPTION_FONTS.map(f => <option key={f.family} value={f.family}>{f.label}</option>)}
+            </select>
+          </label>
+          {slider('Size', value.fontScale, 0.5, 2, 0.05, (fontScale) => update({ fontScale }), percent)}
+
+          <div className="flex flex-col gap-1">
+            <span className={labelClass}>Colors</span>
+            <div className="flex gap-2 items-center">
+              <input type="color" value={value.color} onChange={(e) => update({ color: e.target.value })} disabled={disabled} className={colorClass} title="Text" />
+              <input
+                type="color"
+                value={value.highlightColor || '#facc15'}
+                onChange={(e) => update({ highlightColor: e.target.value })}
+                disabled={disabled || !value.highlightColor}
+                className={colorClass}
+                title="Spoken word highlight"
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!!value.highlightColor}
+                  onChange={(e) => update({ highlightColor: e.target.checked ? '#facc15' : '' })}
+                  disabled={disabled}
+                />
+                Karaoke
+              </label>
+            </div>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Words per phrase</span>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={value.maxWordsPerLine}
+              onChange={(e) => update({ maxWordsPerLine: Math.min(Math.max(Math.round(Number(e.target.value)) || 1, 1), 10) })}
+              disabled={disabled}
+              className={selectClass}
+            />
+          </label>
+
+          <div className="flex gap-2 items-end">
+            <input type="color" value={value.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} disabled={disabled} className={colorClass} title="Outline color" />
+            <div className="flex-1">
+              {slider('Outline', value.strokeWidth, 0, 0.15, 0.01, (strokeWidth) => update({ strokeWidth }), percent)}
+            </div>
+          </div>
+          <div className="flex gap-2 items-end">
+            <input type="color" value={value.boxColor} onChange={(e) => update({ boxColor: e.target.value })} disabled={disabled} className={colorClass} title="Box color" />
+            <div className="flex-1">
+              {slider('Box', value.boxOpacity, 0, 1, 0.05, (boxOpacity) => update({ boxOpacity }), percent)}
+            </div>
+          </div>
+
+          <div className="col-span-2 flex gap-2">
+            {POSITIONS.map(p => (
+              <button key={p.id} onClick={() => update({ position: p.id })} disabled={disabled} className={optionClass(value.position === p.id)}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="col-span-2 flex gap-4 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={value.uppercase} onChange={(e) => update({ uppercase: e.target.checked })} disabled={disabled} />
+              UPPERCASE
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={value.shadow} onChange={(e) => update({ shadow: e.target.checked })} disabled={disabled} />
+              Drop shadow
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <span className={labelClass}>Safe area</span>
+        <p className="text-xs text-gray-500 mb-2">
+          Keeps captions clear of the title, buttons and description that Shorts/Reels draw over the video.
+        </p>
+        <div className="grid grid-cols-3 gap-3">
+          {slider('Top', value.safeArea.top, 0, 0.3, 0.01, (top) => updateSafeArea({ top }), percent)}
+          {slider('Bottom', value.safeArea.bottom, 0, 0.4, 0.01, (bottom) => updateSafeArea({ bottom }), percent)}
+          {slider('Sides', value.safeArea.side, 0, 0.2, 0.005, (side) => updateSafeArea({ side }), percent)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionStylePanel;
@@ -1,30 +1,122 @@
 import React, { useState } from 'react';
-import { AspectRatio, GenerationStatus } from '../types';
+import { AspectRatio, CaptionStyle, GenerationStatus, ProviderSelection, ProviderSettings, StylePreset, VoiceSettings } from '../types';
+import { DEFAULT_TARGET_DURATION, TARGET_DURATIONS, getScenePlan } from '../services/scenePlan';
+import { getRateTier, setRateTier } from '../services/geminiService';
+import { RateTier } from '../services/scheduler';
+import { DEFAULT_VOICE_SETTINGS } from '../services/voices';
+import { getDefaultCaptionStyle } from '../services/captionStyles';
+import { ASPECT_RATIOS, getAspectRatioInfo, isShortForm } from '../services/aspectRatios';
+import { DEFAULT_STYLE_PRESET_ID, getStylePreset } from '../services/stylePresets';
+import { parseBatchInput } from '../services/batchInput';
+import { BatchRequest } from '../services/batchQueue';
+import { getPreferredProviders, getSpeechGenerator, setPreferredProviders } from '../services/providers';
+import VoicePicker from './VoicePicker';
+import CaptionStylePanel from './CaptionStylePanel';
+import ProviderPanel from './ProviderPanel';
+import StylePresetPanel from './StylePresetPanel';
 
 interface CreatorStudioProps {
   status: GenerationStatus;
   progressMessage: string;
-  onGenerate: (topic: string, style: string, ar: AspectRatio) => void;
+  onGenerate: (
+    topic: string,
+    style: string,
+    ar: AspectRatio,
+    targetDuration: number,
+    voice: VoiceSettings,
+    captionStyle: CaptionStyle,
+    providers: ProviderSettings
+  ) => void;
+  onCancel: () => void;
+  onQueueBatch: (requests: BatchRequest[]) => void;
 }
 
-const STYLES = [
-  { id: 'documentary', label: 'Documentary', desc: 'Educational, calm, detailed' },
-  { id: 'hype', label: 'Hype / Viral', desc: 'Fast paced, energetic, bold' },
-  { id: 'cinematic', label: 'Cinematic', desc: 'Dramatic, moody, movie-like' },
-  { id: 'minimalist', label: 'Minimalist', desc: 'Clean, simple, modern' },
-];
+type StudioMode = 'single' | 'batch';
 
-const CreatorStudio: React.FC<CreatorStudioProps> = ({ status, progressMessage, onGenerate }) => {
+// Voice names belong to a speech backend; falls back to the backend's own voices
+const fitVoiceToProvider = (voice: VoiceSettings, tts: ProviderSelection): VoiceSettings => {
+  const voices = getSpeechGenerator(tts).voices.map(v => v.name);
+  if (voices.length === 0 || voices.includes(voice.voiceName)) return voice;
+  return {
+    ...voice,
+    voiceName: voices[0],
+    speakers: voice.speakers.map((s, i) => ({ ...s, voiceName: voices[i % voices.length] })),
+  };
+};
+
+const BATCH_PLACEHOLDER = `One topic per line, or a CSV with a header row:
+topic,style,aspect_ratio,duration
+"The history of pizza",documentary,9:16,60s
+Motivation to workout,hype,1:1,30s`;
+
+const CreatorStudio: React.FC<CreatorStudioProps> = ({ status, progressMessage, onGenerate, onCancel, onQueueBatch }) => {
+  const [mode, setMode] = useState<StudioMode>('single');
   const [topic, setTopic] = useState('');
-  const [selectedStyle, setSelectedStyle] = useState<string>('hype');
+  const [batchText, setBatchText] = useState('');
+  const [selectedStyle, setSelectedStyle] = useState<string>(DEFAULT_STYLE_PRESET_ID);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.PORTRAIT);
+  const [targetDuration, setTargetDuration] = useState<number>(DEFAULT_TARGET_DURATION);
+  const [voice, setVoice] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(() => getDefaultCaptionStyle(AspectRatio.PORTRAIT));
+  const [providers, setProviders] = useState<ProviderSettings>(getPreferredProviders);
+  const [rateTier, setRateTierState] = useState<RateTier>(getRateTier);
+
+  const handleRateTierChange = (tier: RateTier) => {
+    setRateTier(tier);
+    setRateTierState(tier);
+  };
+
+  const handleProvidersChange = (next: ProviderSettings) => {
+    setProviders(next);
+    setPreferredProviders(next);
+    setVoice(fitVoiceToProvider(voice, next.tts));
+  };
+
+  // A preset brings its default voice and caption look along, if it has them
+  const handleStyleChange = (preset: StylePreset) => {
+    setSelectedStyle(preset.id);
+    if (preset.voice) setVoice(fitVoiceToProvider(preset.voice, providers.tts));
+    if (preset.captionStyle) setCaptionStyle(preset.captionStyle);
+  };
 
   const handleGenerate = () => {
     if (!topic.trim()) return;
-    onGenerate(topic, selectedStyle, aspectRatio);
+    onGenerate(topic, selectedStyle, aspectRatio, targetDuration, voice, captionStyle, providers);
   };
 
-  const isGenerating = status !== GenerationStatus.IDLE && status !== GenerationStatus.COMPLETED && status !== GenerationStatus.FAILED;
+  // Empty CSV cells use the settings below
+  const batch = mode === 'batch'
+    ? parseBatchInput(batchText, { style: selectedStyle, aspectRatio, targetDuration })
+    : null;
+
+  // Rows in another style get that preset's default voice and captions; caption line
+  // length follows each row's format
+  const handleQueueBatch = () => {
+    if (!batch?.rows.length) return;
+    onQueueBatch(batch.rows.map(row => {
+      const preset = row.style !== selectedStyle ? getStylePreset(row.style) : undefined;
+      const look = preset?.captionStyle || captionStyle;
+      return {
+        ...row,
+        voice: preset?.voice ? fitVoiceToProvider(preset.voice, providers.tts) : voice,
+        providers,
+        captionStyle: row.aspectRatio === aspectRatio
+          ? look
+          : { ...look, maxWordsPerLine: getAspectRatioInfo(row.aspectRatio).maxWordsPerLine },
+      };
+    }));
+    setBatchText('');
+  };
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setBatchText(await file.text());
+  };
+
+  const scenePlan = getScenePlan(targetDuration, isShortForm(aspectRatio));
+
+  const isGenerating = status === GenerationStatus.PLANNING || status === GenerationStatus.GENERATING_ASSETS;
 
   return (
     <div className="glass-panel rounded-2xl p-6 lg:p-8 shadow-xl border border-gray-700/50">
@@ -32,16 +124,52 @@ const CreatorStudio: React.FC<CreatorStudioProps> = ({ status, progressMessage,
         
         {/* Topic Input */}
         <div>
-          <label className="block text-sm font-medium text-blue-300 mb-2 uppercase tracking-wider">
-            Video Topic / Idea
-          </label>
-          <textarea
-            value={topic}
-            onChange={(e) => setTopic(e.target.value)}
-            disabled={isGenerating}
-            placeholder="E.g., 5 mind-blowing facts about space, The history of pizza, Motivation to workout..."
-            className="w-full bg-gray-900/80 border border-gray-700 rounded-xl p-4 text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all h-28 resize-none text-lg"
-          />
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-blue-300 uppercase tracking-wider">
+              {mode === 'single' ? 'Video Topic / Idea' : 'Topics'}
+            </label>
+            <div className="flex gap-1 text-xs">
+              {(['single', 'batch'] as StudioMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-1 rounded-lg border transition-colors ${
+                    mode === option ? 'border-blue-500 text-white bg-blue-600/20' : 'border-gray-700 text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {option === 'single' ? 'Single' : 'Batch'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {mode === 'single' ? (
+            <textarea
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              disabled={isGenerating}
+              placeholder="E.g., 5 mind-blowing facts about space, The history of pizza, Motivation to workout..."
+              className="w-full bg-gray-900/80 border border-gray-700 rounded-xl p-4 text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all h-28 resize-none text-lg"
+            />
+          ) : (
+            <>
+                <textarea
+                  value={batchText}
+                  onChange={(e) => setBatchText(e.target.value)}
+                  placeholder={BATCH_PLACEHOLDER}
+                  className="w-full bg-gray-900/80 border border-gray-700 rounded-xl p-4 text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all h-40 resize-y font-mono text-sm"
+                />
+                <div className="flex justify-between items-start gap-4 mt-2 text-xs">
+                  <div className="flex flex-col gap-1 text-gray-500">
+                    <span>{batch?.rows.length || 0} videos ready</span>
+                    {batch?.errors.map((error, i) => <span key={i} className="text-red-300">✕ {error}</span>)}
+                  </div>
+                  <label className="text-blue-400 hover:text-blue-300 cursor-pointer flex-shrink-0">
+                    ⬆ Load CSV
+                    <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleCsvFile} className="hidden" />
+                  </label>
+                </div>
+            </>
+          )}
         </div>
 
         {/* Configuration */}
@@ -52,94 +180,174 @@ const CreatorStudio: React.FC<CreatorStudioProps> = ({ status, progressMessage,
              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
               Vibe & Style
             </label>
-            <div className="grid grid-cols-2 gap-2">
-              {STYLES.map(style => (
+            <StylePresetPanel
+              value={selectedStyle}
+              onChange={handleStyleChange}
+              voice={voice}
+              captionStyle={captionStyle}
+              disabled={isGenerating}
+            />
+          </div>
+
+          {/* Aspect Ratio */}
+          <div>
+            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+              Format
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {ASPECT_RATIOS.map(info => (
                 <button
-                  key={style.id}
-                  onClick={() => setSelectedStyle(style.id)}
+                  key={info.id}
+                  onClick={() => setAspectRatio(info.id)}
                   disabled={isGenerating}
-                  className={`p-3 rounded-lg text-left transition-all border ${
-                    selectedStyle === style.id 
-                      ? 'bg-blue-600/20 border-blue-500 text-white' 
-                      : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+                  className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${
+                    aspectRatio === info.id
+                      ? 'bg-gray-800 border-blue-500 text-white ring-2 ring-blue-500/20' 
+                      : 'bg-gray-800/50 border-gray-700 text-gray-500 hover:bg-gray-800'
                   }`}
                 >
-                  <div className="font-medium text-sm">{style.label}</div>
-                  <div className="text-xs opacity-70 mt-1">{style.desc}</div>
+                  <div
+                    className="border-2 border-current rounded mb-2"
+                    style={{
+                      width: `${(40 * info.width) / Math.max(info.width, info.height)}px`,
+                      height: `${(40 * info.height) / Math.max(info.width, info.height)}px`,
+                    }}
+                  ></div>
+                  <span className="font-medium">{info.label}</span>
+                  <span className="text-xs opacity-60">{info.desc}</span>
                 </button>
               ))}
             </div>
           </div>
+        </div>
 
-          {/* Aspect Ratio */}
-          <div>
-            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
-              Format
-            </label>
-            <div className="flex gap-4">
-              <button
-                onClick={() => setAspectRatio(AspectRatio.PORTRAIT)}
-                disabled={isGenerating}
-                className={`flex-1 flex flex-col items-center justify-center p-4 rounded-xl border transition-all ${
-                  aspectRatio === AspectRatio.PORTRAIT 
-                    ? 'bg-gray-800 border-blue-500 text-white ring-2 ring-blue-500/20' 
-                    : 'bg-gray-800/50 border-gray-700 text-gray-500 hover:bg-gray-800'
-                }`}
-              >
-                <div className="w-6 h-10 border-2 border-current rounded mb-2"></div>
-                <span className="font-medium">Shorts</span>
-                <span className="text-xs opacity-60">9:16</span>
-              </button>
-              
+        {/* Target Length */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+            Target Length
+          </label>
+          <div className="flex gap-2">
+            {TARGET_DURATIONS.map(option => (
               <button
-                onClick={() => setAspectRatio(AspectRatio.LANDSCAPE)}
+                key={option.seconds}
+                onClick={() => setTargetDuration(option.seconds)}
                 disabled={isGenerating}
-                className={`flex-1 flex flex-col items-center justify-center p-4 rounded-xl border transition-all ${
-                  aspectRatio === AspectRatio.LANDSCAPE 
-                    ? 'bg-gray-800 border-blue-500 text-white ring-2 ring-blue-500/20' 
-                    : 'bg-gray-800/50 border-gray-700 text-gray-500 hover:bg-gray-800'
+                className={`flex-1 py-2 rounded-lg border text-sm font-medium transition-all ${
+                  targetDuration === option.seconds
+                    ? 'bg-blue-600/20 border-blue-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
                 }`}
               >
-                <div className="w-10 h-6 border-2 border-current rounded mb-2"></div>
-                <span className="font-medium">YouTube</span>
-                <span className="text-xs opacity-60">16:9</span>
+                {option.label}
               </button>
-            </div>
+            ))}
           </div>
+          <p className="text-xs text-gray-500 mt-2">
+            ~{scenePlan.sceneCount} scenes, up to {scenePlan.wordsPerScene} words of narration each
+          </p>
+        </div>
+
+        {/* Voice */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+            Voice
+          </label>
+          <VoicePicker value={voice} onChange={setVoice} provider={providers.tts} disabled={isGenerating} />
+        </div>
+
+        {/* Captions */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+            Captions
+          </label>
+          <CaptionStylePanel
+            value={captionStyle}
+            onChange={setCaptionStyle}
+            aspectRatio={aspectRatio}
+            disabled={isGenerating}
+          />
+        </div>
+
+        {/* Models */}
+        <div>
+          <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">
+            Models
+          </label>
+          <ProviderPanel value={providers} onChange={handleProvidersChange} disabled={isGenerating} />
         </div>
 
         {/* Action Button */}
         <div className="mt-2">
-          <button
-            onClick={handleGenerate}
-            disabled={!topic.trim() || isGenerating}
-            className={`w-full py-5 rounded-xl font-bold text-xl shadow-2xl transform transition-all duration-300 relative overflow-hidden group
-              ${!topic.trim() || isGenerating 
-                ? 'bg-gray-800 text-gray-600 cursor-not-allowed' 
-                : 'bg-white text-black hover:scale-[1.01]'
+          {mode === 'batch' ? (
+            <button
+              onClick={handleQueueBatch}
+              disabled={!batch?.rows.length}
+              className={`w-full py-5 rounded-xl font-bold text-xl shadow-2xl transition-all duration-300 ${
+                batch?.rows.length ? 'bg-white text-black hover:scale-[1.01]' : 'bg-gray-800 text-gray-600 cursor-not-allowed'
               }`}
-          >
-            {isGenerating ? (
-               <span className="flex items-center justify-center gap-3">
-                 <svg className="animate-spin h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                 </svg>
-                 {progressMessage}
-               </span>
-            ) : (
-              <span className="flex items-center justify-center gap-2">
-                <span>✨ Generate Video</span>
-              </span>
-            )}
+            >
+              ➕ Queue {batch?.rows.length || ''} {batch?.rows.length === 1 ? 'video' : 'videos'}
+            </button>
+          ) : (
+            <>
+            <button
+              onClick={handleGenerate}
+              disabled={!topic.trim() || isGenerating}
+              className={`w-full py-5 rounded-xl font-bold text-xl shadow-2xl transform transition-all duration-300 relative overflow-hidden group
+                ${!topic.trim() || isGenerating 
+                  ? 'bg-gray-800 text-gray-600 cursor-not-allowed' 
+                  : 'bg-white text-black hover:scale-[1.01]'
+                }`}
+            >
+              {isGenerating ? (
+                 <span className="flex items-center justify-center gap-3">
+                   <svg className="animate-spin h-6 w-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                   </svg>
+                   {progressMessage}
+                 </span>
+              ) : (
+                <span className="flex items-center justify-center gap-2">
+                  <span>✨ {status === GenerationStatus.SCRIPT_READY ? 'Rewrite Script' : 'Write Script'}</span>
+                </span>
+              )}
             
-            {!isGenerating && topic.trim() && (
-              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-gray-200/30 to-transparent -translate-x-full group-hover:animate-shimmer" />
-            )}
-          </button>
+              {!isGenerating && topic.trim() && (
+                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-gray-200/30 to-transparent -translate-x-full group-hover:animate-shimmer" />
+              )}
+            </button>
           
-          <p className="text-center text-xs text-gray-500 mt-4">
-            Generates ~5 scenes with AI Voiceover & 4K Visuals. Takes about 30-60 seconds.
+            {isGenerating && (
+              <button
+                onClick={onCancel}
+                className="block mx-auto mt-3 text-sm text-gray-400 hover:text-white px-4 py-1 rounded-lg hover:bg-white/5 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            </>
+          )}
+
+          <div className="flex justify-center items-center gap-2 mt-4 text-xs text-gray-500">
+            <span>API key:</span>
+            {(['free', 'paid'] as RateTier[]).map(tier => (
+              <button
+                key={tier}
+                onClick={() => handleRateTierChange(tier)}
+                className={`px-2 py-0.5 rounded border transition-colors ${
+                  rateTier === tier ? 'border-blue-500 text-white' : 'border-gray-700 hover:text-gray-300'
+                }`}
+              >
+                {tier === 'free' ? 'Free tier' : 'Paid'}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-center text-xs text-gray-500 mt-2">
+            {mode === 'single'
+              ? 'Writes a script for you to review first. Visuals & voiceover are generated once you approve it.'
+              : 'Batch videos skip the script review and are saved to your library as they finish.'}
           </p>
         </div>
       </div>
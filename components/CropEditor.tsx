@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, SegmentMotion, VideoSegment } from '../types';
+import { ASPECT_RATIOS, getAspectValue, getCropRect, getCropZoom, getFocusForCropCenter } from '../services/aspectRatios';
+import { getImageMimeType, isVideoClip } from '../services/mediaUtils';
+import { getSegmentMotion } from '../services/motion';
+
+interface CropEditorProps {
+  segment: VideoSegment;
+  aspectRatio: AspectRatio;
+  onChange: (motion: SegmentMotion) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const MAX_CROP_ZOOM = 3;
+
+// The whole image with the part each format keeps drawn on top. Dragging moves the frame
+// (the focal point), the slider crops in further. One focal point serves every format.
+const CropEditor: React.FC<CropEditorProps> = ({ segment, aspectRatio, onChange, onClose, disabled }) => {
+  const [previewRatio, setPreviewRatio] = useState<AspectRatio>(aspectRatio);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const motion = getSegmentMotion(segment);
+  const crop = naturalSize
+    ? getCropRect(naturalSize.width, naturalSize.height, getAspectValue(previewRatio), motion)
+    : null;
+  const src = `data:${getImageMimeType(segment)};base64,${segment.imageData}`;
+
+  const moveTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = areaRef.current?.getBoundingClientRect();
+    if (!rect || !crop) return;
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    onChange({ ...motion, ...getFocusForCropCenter(x, y, crop) });
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs font-medium transition-all ${
+      active
+        ? 'bg-blue-600/20 border-blue-500 text-white'
+        : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+
+  return (
+    <div className="glass-panel rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={labelClass}>Framing</span>
+        {ASPECT_RATIOS.map(info => (
+          <button key={info.id} onClick={() => setPreviewRatio(info.id)} className={optionClass(previewRatio === info.id)}>
+            {info.desc}{info.id === aspectRatio ? ' •' : ''}
+          </button>
+        ))}
+        <button onClick={onClose} className="ml-auto text-xs text-gray-400 hover:text-white">Done</button>
+      </div>
+
+      <div
+        ref={areaRef}
+        onPointerDown={(e) => {
+          if (disabled) return;
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveTo(e);
+        }}
+        onPointerMove={(e) => draggingRef.current && moveTo(e)}
+        onPointerUp={() => { draggingRef.current = false; }}
+        className={`relative self-center max-w-full select-none touch-none overflow-hidden rounded-lg bg-gray-900 ${disabled ? '' : 'cursor-move'}`}
+      >
+        {isVideoClip(segment.imageMimeType) ? (
+          <video
+            src={src}
+            muted
+            loop
+            autoPlay
+            playsInline
+            onLoadedMetadata={(e) => setNaturalSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+            className="block max-h-72 max-w-full pointer-events-none"
+          />
+        ) : (
+          <img
+            src={src}
+            alt=""
+            draggable={false}
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="block max-h-72 max-w-full pointer-events-none"
+          />
+        )}
+        {crop && (
+          <div
+            className="absolute border-2 border-blue-500 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+            }}
+          />
+        )}
+        <span
+          className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-blue-500 ring-2 ring-white/80 pointer-events-none"
+          style={{ left: `${motion.focusX * 100}%`, top: `${motion.focusY * 100}%` }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex flex-1 flex-col gap-1">
+          <span className={labelClass}>
+            Crop zoom <span className="text-gray-500 normal-case">{Math.round(getCropZoom(motion) * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min={1}
+            max={MAX_CROP_ZOOM}
+            step={0.05}
+            value={getCropZoom(motion)}
+            onChange={(e) => onChange({ ...motion, cropZoom: Number(e.target.value) })}
+            disabled={disabled}
+            className="accent-blue-500"
+          />
+        </label>
+        <button
+          onClick={() => onChange({ ...motion, focusX: 0.5, focusY: 0.5, cropZoom: 1 })}
+          disabled={disabled}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Drag to choose what stays in frame. The dot is also where zooms and pans are anchored.
+      </p>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { ERROR_TITLES, GenerationError, describeErrorContext } from '../services/errors';
+import { RunLog, RunLogEntry, RunLogEvent } from '../services/runLog';
+
+interface DiagnosticsPanelProps {
+  error: GenerationError;
+  log: RunLog;
+}
+
+const EVENT_STYLES: Record<RunLogEvent, string> = {
+  request: 'text-gray-500',
+  success: 'text-green-400',
+  retry: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ error, log }) => {
+  const [entries, setEntries] = useState<RunLogEntry[]>(log.getEntries);
+  const [showLog, setShowLog] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setEntries(log.getEntries());
+    return log.subscribe(() => setEntries(log.getEntries()));
+  }, [log]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(log.format(error));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy run log", e);
+    }
+  };
+
+  const context = describeErrorContext(error);
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 mt-4 border border-gray-700/50 flex flex-col gap-3 text-sm">
+      <div className="flex justify-between items-start gap-4">
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className={labelClass}>Diagnostics</span>
+          <span className="text-white font-medium">{ERROR_TITLES[error.kind]}</span>
+          {context && <span className="text-xs text-gray-400">{context}</span>}
+        </div>
+        <button onClick={handleCopy} className="text-xs text-blue-400 hover:text-blue-300 flex-shrink-0">
+          {copied ? '✓ Copied' : '⧉ Copy run log'}
+        </button>
+      </div>
+
+      <p className="text-gray-300 break-words">{error.message}</p>
+      {(error.status || error.finishReason || error.safetyReason) && (
+        <div className="flex flex-wrap gap-2 text-[11px]">
+          {error.status && <span className="px-2 py-0.5 rounded bg-gray-800 text-gray-300">HTTP {error.status}</span>}
+          {error.finishReason && <span className="px-2 py-0.5 rounded bg-gray-800 text-gray-300">Finish: {error.finishReason}</span>}
+          {error.safetyReason && <span className="px-2 py-0.5 rounded bg-red-900/40 text-red-200">Safety: {error.safetyReason}</span>}
+        </div>
+      )}
+      <p className="text-blue-200 text-xs">💡 {error.suggestion}</p>
+
+      <button onClick={() => setShowLog(v => !v)} className="text-xs text-gray-400 hover:text-white text-left">
+        {showLog ? '▾' : '▸'} Run log ({entries.length} events)
+      </button>
+      {showLog && (
+        <div className="max-h-64 overflow-y-auto rounded-lg bg-black/40 p-2 font-mono text-[11px] leading-relaxed">
+          {entries.map((entry, i) => (
+            <div key={i} className="flex gap-2 whitespace-nowrap">
+              <span className="text-gray-600">+{(entry.time / 1000).toFixed(2)}s</span>
+              <span className={`w-14 ${EVENT_STYLES[entry.event]}`}>{entry.event}</span>
+              <span className="text-gray-400">
+                {entry.sceneIndex !== undefined ? `scene ${entry.sceneIndex + 1} ` : ''}{entry.stage} · {entry.provider}/{entry.model || 'default'} #{entry.attempt}
+              </span>
+              {entry.durationMs !== undefined && <span className="text-gray-600">{Math.round(entry.durationMs)}ms</span>}
+              {entry.detail && <span className="text-gray-300 truncate" title={entry.detail}>{entry.detail}</span>}
+            </div>
+          ))}
+          {entries.length === 0 && <div className="text-gray-600">No requests were made.</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
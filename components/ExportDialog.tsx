@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, GeneratedVideo } from '../types';
+import { ExportFormat, ExportResolution, exportVideo, getExportFileName } from '../services/videoExporter';
+import { downloadBlob } from '../services/mediaUtils';
+import { buildSrt, buildVtt } from '../services/captions';
+import { ASPECT_RATIOS } from '../services/aspectRatios';
+import { exportProjectBundle } from '../services/projectBundle';
+import { exportSeoJson, exportSeoText, getSeoMetadata } from '../services/seo';
+import { formatError } from '../services/errors';
+
+interface ExportDialogProps {
+  video: GeneratedVideo;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ video, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [resolution, setResolution] = useState<ExportResolution>('1080p');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(video.aspectRatio);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsExporting(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      // Another frame is just another render: same script, audio and focal points
+      const blob = await exportVideo({ ...video, aspectRatio }, {
+        format,
+        resolution,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, getExportFileName(video, format, aspectRatio));
+      onClose();
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error(e);
+        setError(formatError(e));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  // Subtitle files use the same word timings as the burned-in captions
+  const handleCaptionDownload = (kind: 'srt' | 'vtt') => {
+    const text = kind === 'srt' ? buildSrt(video) : buildVtt(video);
+    const type = kind === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([text], { type }), getExportFileName(video, kind));
+  };
+
+  const seo = getSeoMetadata(video);
+
+  const handleCancel = () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg border text-sm font-medium transition-all ${
+      active
+        ? 'bg-blue-600/20 border-blue-500 text-white'
+        : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl p-6 max-w-md w-full shadow-2xl">
+        <h2 className="text-xl font-bold text-white mb-1">Download Video</h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Renders every frame offline, so the file is identical no matter how fast your machine is.
+        </p>
+
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Format</label>
+        <div className="flex gap-2 mb-4">
+          {(['webm', 'mp4'] as ExportFormat[]).map(f => (
+            <button key={f} onClick={() => setFormat(f)} disabled={isExporting} className={optionClass(format === f)}>
+              {f.toUpperCase()}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Frame</label>
+        <div className="flex gap-2 mb-4">
+          {ASPECT_RATIOS.map(info => (
+            <button
+              key={info.id}
+              onClick={() => setAspectRatio(info.id)}
+              disabled={isExporting}
+              className={optionClass(aspectRatio === info.id)}
+              title={info.label}
+            >
+              {info.desc}
+            </button>
+          ))}
+        </div>
+        {aspectRatio !== video.aspectRatio && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4">
+            Images are re-cropped around each scene's focal point; script and audio stay the same.
+          </p>
+        )}
+
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Resolution</label>
+        <div className="flex gap-2 mb-4">
+          {(['720p', '1080p'] as ExportResolution[]).map(r => (
+            <button key={r} onClick={() => setResolution(r)} disabled={isExporting} className={optionClass(resolution === r)}>
+              {r}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Subtitles</label>
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => handleCaptionDownload('srt')} disabled={isExporting} className={optionClass(false)}>
+            ↓ .SRT
+          </button>
+          <button onClick={() => handleCaptionDownload('vtt')} disabled={isExporting} className={optionClass(false)}>
+            ↓ .VTT
+          </button>
+        </div>
+
+        {seo && (
+          <>
+            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">YouTube Metadata</label>
+            <div className="flex gap-2 mb-4">
+              <button
+                onClick={() => downloadBlob(exportSeoText(seo), getExportFileName(video, 'youtube.txt'))}
+                disabled={isExporting}
+                className={optionClass(false)}
+                title="Titles, description with chapters and hashtags, and tags, ready to paste"
+              >
+                ↓ .TXT
+              </button>
+              <button
+                onClick={() => downloadBlob(exportSeoJson(seo), getExportFileName(video, 'youtube.json'))}
+                disabled={isExporting}
+                className={optionClass(false)}
+              >
+                ↓ .JSON
+              </button>
+            </div>
+          </>
+        )}
+
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Project</label>
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={() => downloadBlob(exportProjectBundle(video), getExportFileName(video, 'tubegen.zip'))}
+            disabled={isExporting}
+            className={optionClass(false)}
+            title="Script, settings, every take and the music as one file, for importing on another machine"
+          >
+            ↓ Project bundle
+          </button>
+        </div>
+
+        {isExporting && (
+          <div className="mb-6">
+            <div className="w-full h-2 bg-gray-900 rounded-full overflow-hidden relative">
+              <div className="absolute inset-0 bg-blue-500 transition-all duration-300 rounded-full" style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-xs text-gray-400 mt-2 text-center">Rendering... {progress}%</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleCancel}
+            className="flex-1 py-3 rounded-xl text-gray-300 hover:text-white hover:bg-white/5 transition-colors font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex-1 py-3 rounded-xl bg-white text-black font-bold disabled:bg-gray-700 disabled:text-gray-500 transition-all"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
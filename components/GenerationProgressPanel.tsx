@@ -0,0 +1,52 @@
+import React from 'react';
+import { AssetJobState, AssetJobStatus } from '../types';
+
+interface GenerationProgressPanelProps {
+  jobs: AssetJobStatus[];
+  lastMessage: string;
+}
+
+const STATE_STYLES: Record<AssetJobState, string> = {
+  queued: 'bg-gray-800 text-gray-500 border-gray-700',
+  running: 'bg-blue-600/20 text-blue-300 border-blue-500 animate-pulse',
+  retrying: 'bg-yellow-500/20 text-yellow-300 border-yellow-500',
+  done: 'bg-green-600/20 text-green-300 border-green-600',
+  failed: 'bg-red-900/30 text-red-300 border-red-700',
+};
+
+const GenerationProgressPanel: React.FC<GenerationProgressPanelProps> = ({ jobs, lastMessage }) => {
+  if (jobs.length === 0) return null;
+
+  const scenes = Array.from(new Set<number>(jobs.map(j => j.sceneIndex))).sort((a, b) => a - b);
+  const done = jobs.filter(j => j.state === 'done').length;
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 mt-6 border border-gray-700/50">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Assets</span>
+        <span className="text-xs text-gray-500">{done}/{jobs.length} done</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2">
+        {scenes.map(sceneIndex => (
+          <div key={sceneIndex} className="flex items-center gap-1 text-xs">
+            <span className="text-gray-500 w-14">Scene {sceneIndex + 1}</span>
+            {jobs
+              .filter(j => j.sceneIndex === sceneIndex)
+              .map(j => (
+                <span
+                  key={j.kind}
+                  title={`${j.kind === 'image' ? 'Visuals' : 'Voiceover'}: ${j.state}`}
+                  className={`px-1.5 py-0.5 rounded border ${STATE_STYLES[j.state]}`}
+                >
+                  {j.kind === 'image' ? '🖼' : '🔊'}
+                </span>
+              ))}
+          </div>
+        ))}
+      </div>
+      {lastMessage && <p className="text-xs text-gray-500 mt-3 truncate">{lastMessage}</p>}
+    </div>
+  );
+};
+
+export default GenerationProgressPanel;
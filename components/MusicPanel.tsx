@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { MusicTrack } from '../types';
+import { DEFAULT_MUSIC_SETTINGS } from '../services/audioMix';
+import { blobToBase64, decodeAudioFile } from '../services/mediaUtils';
+
+interface MusicPanelProps {
+  value?: MusicTrack;
+  onChange: (music: MusicTrack | undefined) => void;
+  disabled?: boolean;
+}
+
+// Any context can decode; this one is never started
+const decodeForInfo = (data: string) => decodeAudioFile(data, new OfflineAudioContext(1, 1, 44100));
+
+const MusicPanel: React.FC<MusicPanelProps> = ({ value, onChange, disabled }) => {
+  const [fileDuration, setFileDuration] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Length of the uploaded file, for the trim controls
+  useEffect(() => {
+    setFileDuration(null);
+    setError(null);
+    if (!value) return;
+    let cancelled = false;
+    decodeForInfo(value.data)
+      .then(buffer => { if (!cancelled) setFileDuration(buffer.duration); })
+      .catch(() => { if (!cancelled) setError("This music file can't be played by your browser."); });
+    return () => { cancelled = true; };
+  }, [value?.data]);
+
+  const update = (patch: Partial<MusicTrack>) => value && onChange({ ...value, ...patch });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await blobToBase64(file);
+      await decodeForInfo(data); // reject files the browser can't decode before attaching them
+      onChange({
+        ...DEFAULT_MUSIC_SETTINGS,
+        ...(value ? { volume: value.volume, duckLevel: value.duckLevel, fadeIn: value.fadeIn, fadeOut: value.fadeOut } : {}),
+        name: file.name,
+        mimeType: file.type || 'audio/mpeg',
+        data,
+      });
+    } catch (err) {
+      console.error(err);
+      setError(`Couldn't read "${file.name}". Try an MP3, WAV or OGG file.`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  const slider = (label: string, val: number, min: number, max: number, step: number, onSet: (v: number) => void, format: (v: number) => string) => (
+    <label className="flex flex-col gap-1">
+      <span className={labelClass}>{label} <span className="text-gray-500 normal-case">{format(val)}</span></span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={val}
+        onChange={(e) => onSet(Number(e.target.value))}
+        disabled={disabled}
+        className="accent-blue-500"
+      />
+    </label>
+  );
+
+  const percent = (v: number) => `${Math.round(v * 100)}%`;
+  const seconds = (v: number) => `${v.toFixed(1)}s`;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-3 text-sm">
+        <label className={`px-3 py-2 rounded-lg border border-gray-700 text-gray-300 ${disabled ? 'opacity-50' : 'hover:border-gray-500 hover:text-white cursor-pointer'}`}>
+          {isLoading ? 'Loading...' : value ? 'Replace music' : '+ Add music'}
+          <input type="file" accept="audio/*" onChange={handleFile} disabled={disabled || isLoading} className="hidden" />
+        </label>
+        {value && (
+          <>
+            <span className="text-gray-400 truncate flex-1" title={value.name}>
+              ♪ {value.name}{fileDuration !== null && ` (${fileDuration.toFixed(1)}s)`}
+            </span>
+            <button
+              onClick={() => onChange(undefined)}
+              disabled={disabled}
+              className="text-gray-500 hover:text-red-400 text-xs"
+            >
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {value && (
+        <div className="grid grid-cols-2 gap-3">
+          {slider('Volume', value.volume, 0, 1, 0.05, (volume) => update({ volume }), percent)}
+          {slider('Under narration', value.duckLevel, 0, 1, 0.05, (duckLevel) => update({ duckLevel }), percent)}
+          {slider('Fade in', value.fadeIn, 0, 5, 0.5, (fadeIn) => update({ fadeIn }), seconds)}
+          {slider('Fade out', value.fadeOut, 0, 5, 0.5, (fadeOut) => update({ fadeOut }), seconds)}
+
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Start at (s)</span>
+            <input
+              type="number"
+              min={0}
+              max={fileDuration ?? undefined}
+              step={0.5}
+              value={value.trimStart}
+              onChange={(e) => update({ trimStart: Math.max(Number(e.target.value) || 0, 0) })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>End at (s, 0 = end of file)</span>
+            <input
+              type="number"
+              min={0}
+              max={fileDuration ?? undefined}
+              step={0.5}
+              value={value.trimEnd}
+              onChange={(e) => update({ trimEnd: Math.max(Number(e.target.value) || 0, 0) })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={value.loop} onChange={(e) => update({ loop: e.target.checked })} disabled={disabled} />
+            Loop until the video ends
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MusicPanel;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { RunLog, RunLogEntry } from '../services/runLog';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  PROMPT_SAMPLES,
+  PROMPT_TEMPLATE_IDS,
+  PromptTemplateId,
+  getPromptHistory,
+  getPromptTemplate,
+  isPromptOutdated,
+  renderTemplate,
+  resetPromptTemplate,
+  savePromptTemplate,
+  validatePromptTemplate,
+} from '../services/promptTemplates';
+
+interface PromptPanelProps {
+  log: RunLog;
+}
+
+type PromptTab = 'sent' | 'templates';
+
+const PromptPanel: React.FC<PromptPanelProps> = ({ log }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<PromptTab>('sent');
+  const [entries, setEntries] = useState<RunLogEntry[]>(log.getEntries);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('script');
+  const [template, setTemplate] = useState(() => getPromptTemplate('script'));
+  const [draft, setDraft] = useState(template.text);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setEntries(log.getEntries());
+    return log.subscribe(() => setEntries(log.getEntries()));
+  }, [log]);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    const next = getPromptTemplate(id);
+    setTemplateId(id);
+    setTemplate(next);
+    setDraft(next.text);
+  };
+
+  const handleSave = () => {
+    setTemplate(savePromptTemplate(templateId, draft));
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Go back to the built-in "${template.name}" prompt? Your saved versions are deleted.`)) return;
+    resetPromptTemplate(templateId);
+    selectTemplate(templateId);
+  };
+
+  const handleCopy = async (text: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(null), 2000);
+    } catch (e) {
+      console.error("Failed to copy prompt", e);
+    }
+  };
+
+  const sent = entries.filter(entry => entry.prompt);
+  const history = getPromptHistory(templateId);
+  const problems = validatePromptTemplate(templateId, draft);
+  let preview = '';
+  try {
+    preview = renderTemplate({ ...template, text: draft }, PROMPT_SAMPLES[templateId]).text;
+  } catch (e) {
+    preview = (e as Error).message;
+  }
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg border text-xs transition-colors ${
+      active ? 'border-blue-500 text-white bg-blue-600/20' : 'border-gray-700 text-gray-400 hover:text-gray-200'
+    }`;
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 mt-6 border border-gray-700/50 flex flex-col gap-3 text-sm">
+      <button onClick={() => setIsOpen(v => !v)} className="flex justify-between items-center text-left">
+        <span className={labelClass}>{isOpen ? '▾' : '▸'} Prompts</span>
+        <span className="text-xs text-gray-500">{sent.length} sent in the last run</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="flex gap-1">
+            <button onClick={() => setTab('sent')} className={tabClass(tab === 'sent')}>Last run</button>
+            <button onClick={() => setTab('templates')} className={tabClass(tab === 'templates')}>Templates</button>
+          </div>
+
+          {tab === 'sent' && (
+            <div className="flex flex-col gap-3 max-h-96 overflow-y-auto">
+              {sent.map((entry, i) => (
+                <div key={i} className="flex flex-col gap-1">
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-xs text-gray-400">
+                      {entry.sceneIndex !== undefined ? `Scene ${entry.sceneIndex + 1} · ` : ''}{entry.stage} · {entry.provider}/{entry.model || 'default'}
+                      <span className="text-gray-600"> · {entry.promptSource}</span>
+                    </span>
+                    <button onClick={() => handleCopy(entry.prompt!, i)} className="text-xs text-blue-400 hover:text-blue-300 flex-shrink-0">
+                      {copiedIndex === i ? '✓ Copied' : '⧉ Copy'}
+                    </button>
+                  </div>
+                  <pre className="rounded-lg bg-black/40 p-2 font-mono text-[11px] text-gray-300 whitespace-pre-wrap break-words">{entry.prompt}</pre>
+                </div>
+              ))}
+              {sent.length === 0 && <p className="text-xs text-gray-500">Prompts appear here as soon as a run sends them.</p>}
+            </div>
+          )}
+
+          {tab === 'templates' && (
+            <div className="flex flex-col gap-3">
+              <div className="flex flex-wrap gap-3 items-center">
+                <select value={templateId} onChange={(e) => selectTemplate(e.target.value as PromptTemplateId)} className={`${inputClass} w-auto`}>
+                  {PROMPT_TEMPLATE_IDS.map(id => (
+                    <option key={id} value={id}>{BUILT_IN_PROMPT_TEMPLATES[id].name}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-400">
+                  v{template.version}
+                  {isPromptOutdated(template) && (
+                    <span className="text-yellow-300"> · based on an older built-in (now v{BUILT_IN_PROMPT_TEMPLATES[templateId].version})</span>
+                  )}
+                </span>
+                {history.length > 1 && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const edit = history.find(h => h.version === e.target.value);
+                      if (edit) setDraft(edit.text);
+                    }}
+                    className={`${inputClass} w-auto`}
+                  >
+                    <option value="">Load an earlier version…</option>
+                    {history.map(edit => (
+                      <option key={edit.version} value={edit.version}>
+                        v{edit.version} · {new Date(edit.savedAt).toLocaleString()}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-gray-500">
+                {template.variables.map(variable => (
+                  <span key={variable.name}>
+                    <code className="text-blue-300">{`{{${variable.name}}}`}</code> {variable.type}
+                    {variable.optional ? ', optional' : ''}: {variable.description}
+                  </span>
+                ))}
+                {template.variables.length === 0 && <span>No variables.</span>}
+              </div>
+
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={Math.min(16, draft.split('\n').length + 1)}
+                className={`${inputClass} font-mono resize-y`}
+              />
+              <p className="text-[11px] text-gray-500">
+                User values are quoted so the model reads them as data. Wrap optional parts in [[ ]] to drop them when a value inside is empty.
+              </p>
+              {problems.map((problem, i) => <p key={i} className="text-xs text-red-300">✕ {problem}</p>)}
+
+              <div className="flex flex-col gap-1">
+                <span className={labelClass}>Preview with sample values</span>
+                <pre className="rounded-lg bg-black/40 p-2 font-mono text-[11px] text-gray-300 whitespace-pre-wrap break-words">{preview}</pre>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <div>
+                  {history.length > 0 && (
+                    <button onClick={handleReset} className="text-xs text-red-400 hover:text-red-300">Reset to built-in</button>
+                  )}
+                </div>
+                <button
+                  onClick={handleSave}
+                  disabled={problems.length > 0 || draft === template.text}
+                  className="text-xs font-bold bg-white text-black px-3 py-1.5 rounded-lg disabled:bg-gray-800 disabled:text-gray-600"
+                >
+                  Save as new version
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromptPanel;
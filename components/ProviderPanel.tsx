@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ProviderKind, ProviderSettings } from '../types';
+import { ProviderEndpoint, getEndpoint, getProvider, listProviders, selectProvider, setEndpoint } from '../services/providers';
+
+interface ProviderPanelProps {
+  value: ProviderSettings;
+  onChange: (providers: ProviderSettings) => void;
+  disabled?: boolean;
+}
+
+const KINDS: { id: ProviderKind; label: string }[] = [
+  { id: 'script', label: 'Script' },
+  { id: 'image', label: 'Visuals' },
+  { id: 'tts', label: 'Voice' },
+];
+
+const ProviderPanel: React.FC<ProviderPanelProps> = ({ value, onChange, disabled }) => {
+  // Endpoints live in localStorage rather than on the video; mirrored here so edits re-render
+  const [endpoints, setEndpoints] = useState<Record<string, ProviderEndpoint>>({});
+
+  const endpointFor = (providerId: string) => endpoints[providerId] || getEndpoint(providerId);
+
+  const updateEndpoint = (providerId: string, patch: Partial<ProviderEndpoint>) => {
+    const next = { ...endpointFor(providerId), ...patch };
+    setEndpoint(providerId, next);
+    setEndpoints(prev => ({ ...prev, [providerId]: next }));
+  };
+
+  // Providers in use that talk to a configurable server, each listed once
+  const configurable = [...new Set(KINDS.map(kind => value[kind.id].providerId))]
+    .map(getProvider)
+    .filter(provider => provider.defaultEndpoint);
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="flex flex-col gap-3">
+      {KINDS.map(kind => {
+        const selection = value[kind.id];
+        const generator = getProvider(selection.providerId)[kind.id];
+        const listId = `models-${kind.id}`;
+        return (
+          <div key={kind.id} className="grid grid-cols-[4rem_1fr_1fr] gap-2 items-center">
+            <span className={labelClass}>{kind.label}</span>
+            <select
+              value={selection.providerId}
+              onChange={(e) => onChange({ ...value, [kind.id]: selectProvider(kind.id, e.target.value) })}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {listProviders(kind.id).map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+            <input
+              value={selection.model}
+              onChange={(e) => onChange({ ...value, [kind.id]: { ...selection, model: e.target.value.trim() } })}
+              list={listId}
+              disabled={disabled}
+              placeholder="Server default"
+              title="Model name"
+              className={inputClass}
+            />
+            <datalist id={listId}>
+              {generator?.models.filter(Boolean).map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+        );
+      })}
+
+      {configurable.map(provider => (
+        <div key={provider.id} className="flex flex-col gap-2 p-3 rounded-lg border border-gray-800 bg-gray-900/40">
+          <div className="text-xs text-gray-400">
+            <span className="text-gray-200 font-medium">{provider.label}</span> · {provider.description}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={endpointFor(provider.id).baseUrl}
+              onChange={(e) => updateEndpoint(provider.id, { baseUrl: e.target.value.trim() })}
+              disabled={disabled}
+              placeholder="Base URL"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={endpointFor(provider.id).apiKey}
+              onChange={(e) => updateEndpoint(provider.id, { apiKey: e.target.value.trim() })}
+              disabled={disabled}
+              placeholder="API key (optional)"
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Saved with each video, so regenerating a scene later uses the same models. Keys stay in this browser.
+      </p>
+    </div>
+  );
+};
+
+export default ProviderPanel;
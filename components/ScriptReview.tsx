@@ -0,0 +1,166 @@
+import React from 'react';
+import { ScriptScene, VideoScript } from '../types';
+import StyleBiblePanel from './StyleBiblePanel';
+import SeoPanel from './SeoPanel';
+import { hasErrors, validateScript } from '../services/scriptValidation';
+import { wantsChapters } from '../services/seo';
+
+interface ScriptReviewProps {
+  script: VideoScript;
+  isBusy: boolean;
+  onChange: (script: VideoScript) => void;
+  onRegenerate: () => void;
+  onApprove: () => void;
+  onDiscard: () => void;
+}
+
+const ScriptReview: React.FC<ScriptReviewProps> = ({ script, isBusy, onChange, onRegenerate, onApprove, onDiscard }) => {
+  const updateScene = (index: number, patch: Partial<ScriptScene>) => {
+    onChange({
+      ...script,
+      scenes: script.scenes.map((scene, i) => (i === index ? { ...scene, ...patch } : scene)),
+    });
+  };
+
+  const insertScene = (index: number) => {
+    const scene: ScriptScene = { id: `scene-${Date.now()}`, narration: '', visualPrompt: '' };
+    onChange({ ...script, scenes: [...script.scenes.slice(0, index), scene, ...script.scenes.slice(index)] });
+  };
+
+  const deleteScene = (index: number) => {
+    onChange({ ...script, scenes: script.scenes.filter((_, i) => i !== index) });
+  };
+
+  const issues = validateScript(script);
+  const isValid = !hasErrors(issues);
+  const sceneIssues = (index: number) => issues.filter(issue => issue.sceneIndex === index);
+  const hasChapters = wantsChapters(script.aspectRatio, script.targetDuration);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 lg:p-8 shadow-xl border border-gray-700/50 mt-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Review Script</h2>
+          <p className="text-sm text-gray-400">
+            Nothing has been spent on images or voiceovers yet. Edit the script, then approve it.
+          </p>
+        </div>
+        <div className="text-xs text-gray-500">{script.scenes.length} scenes</div>
+      </div>
+
+      <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-4">
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">Style Bible</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Repeated in every image prompt so characters, places and colours match from scene to scene.
+        </p>
+        <StyleBiblePanel
+          value={script}
+          onChange={(patch) => onChange({ ...script, ...patch })}
+          imageProvider={script.providers.image}
+          disabled={isBusy}
+        />
+      </div>
+
+      <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 mb-4">
+        <h3 className="text-sm font-semibold text-gray-300 mb-1">YouTube Metadata</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          {hasChapters
+            ? "Exported with the video. Chapters are timed from the voiceovers, using the headings on each scene."
+            : "Exported with the video, ready to paste into YouTube's upload form."}
+        </p>
+        <SeoPanel value={script.seo} onChange={(seo) => onChange({ ...script, seo })} disabled={isBusy} />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {script.scenes.map((scene, index) => (
+          <React.Fragment key={scene.id}>
+            <div className="bg-gray-900/50 border border-gray-700/50 rounded-xl p-4 flex gap-4 items-start">
+              <span className="text-xs font-bold text-gray-500 pt-1">{index + 1}</span>
+              <div className="flex-1 flex flex-col gap-2 min-w-0">
+                {hasChapters && (
+                  <input
+                    value={scene.chapter || ''}
+                    onChange={(e) => updateScene(index, { chapter: e.target.value })}
+                    disabled={isBusy}
+                    placeholder={index === 0 ? 'Chapter heading' : 'Same chapter as the scene before'}
+                    className="w-full bg-transparent border-b border-gray-700 pb-1 text-xs font-semibold text-blue-300 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+                  />
+                )}
+                <label className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider">Narration</label>
+                <textarea
+                  value={scene.narration}
+                  onChange={(e) => updateScene(index, { narration: e.target.value })}
+                  disabled={isBusy}
+                  rows={2}
+                  className="w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <label className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider">Visual Prompt</label>
+                <textarea
+                  value={scene.visualPrompt}
+                  onChange={(e) => updateScene(index, { visualPrompt: e.target.value })}
+                  disabled={isBusy}
+                  rows={2}
+                  className="w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                {sceneIssues(index).map((issue, i) => (
+                  <p key={i} className={`text-xs ${issue.severity === 'error' ? 'text-red-300' : 'text-yellow-400'}`}>
+                    {issue.severity === 'error' ? '✕' : '⚠'} {issue.message}
+                  </p>
+                ))}
+              </div>
+              <button
+                onClick={() => deleteScene(index)}
+                disabled={isBusy || script.scenes.length <= 1}
+                className="text-gray-500 hover:text-red-400 disabled:opacity-30 p-1"
+                title="Delete scene"
+              >
+                ✕
+              </button>
+            </div>
+            <button
+              onClick={() => insertScene(index + 1)}
+              disabled={isBusy}
+              className="text-xs text-gray-500 hover:text-blue-400 py-1 transition-colors"
+            >
+              + Insert scene
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {!isValid && (
+        <p className="mt-4 text-sm text-red-300">
+          Fix the problems marked ✕ before generating images and voiceovers.
+        </p>
+      )}
+
+      <div className="flex justify-between items-center mt-6">
+        <button
+          onClick={onDiscard}
+          disabled={isBusy}
+          className="text-gray-400 hover:text-white text-sm px-4 py-2 rounded-lg hover:bg-white/5 transition-colors"
+        >
+          Discard
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onRegenerate}
+            disabled={isBusy}
+            className="text-blue-400 hover:text-blue-300 disabled:text-gray-600 text-sm font-medium px-4 py-2 rounded-lg hover:bg-blue-500/10 transition-colors"
+          >
+            ↻ Rewrite Script
+          </button>
+          <button
+            onClick={onApprove}
+            disabled={isBusy || !isValid}
+            className="bg-white text-black disabled:bg-gray-700 disabled:text-gray-500 text-sm font-bold px-5 py-2 rounded-lg transition-all"
+          >
+            Approve & Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptReview;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { SeoMetadata } from '../types';
+import { formatTimestamp } from '../services/seo';
+
+interface SeoPanelProps {
+  value: SeoMetadata;
+  onChange: (seo: SeoMetadata) => void;
+  disabled?: boolean;
+}
+
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+const parseHashtags = (text: string) =>
+  text.split(/[\s,]+/).filter(Boolean).map(tag => (tag.startsWith('#') ? tag : `#${tag}`));
+
+const sameList = (a: string[], b: string[]) => a.join('\n') === b.join('\n');
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ value, onChange, disabled }) => {
+  // Typed as text so commas and spaces can be typed freely; the lists are what is saved
+  const [tagsText, setTagsText] = useState(() => value.tags.join(', '));
+  const [hashtagsText, setHashtagsText] = useState(() => value.hashtags.join(' '));
+
+  // A rewritten script brings new lists; the text follows unless it already says the same
+  useEffect(() => {
+    setTagsText(text => (sameList(parseTags(text), value.tags) ? text : value.tags.join(', ')));
+  }, [value.tags]);
+  useEffect(() => {
+    setHashtagsText(text => (sameList(parseHashtags(text), value.hashtags) ? text : value.hashtags.join(' ')));
+  }, [value.hashtags]);
+
+  const update = (patch: Partial<SeoMetadata>) => onChange({ ...value, ...patch });
+  const updateTitle = (index: number, title: string) =>
+    update({ titles: value.titles.map((t, i) => (i === index ? title : t)) });
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1">
+        <span className={labelClass}>Title options</span>
+        {value.titles.map((title, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <input
+              value={title}
+              onChange={(e) => updateTitle(i, e.target.value)}
+              disabled={disabled}
+              className={`${inputClass} ${i === 0 ? 'text-white' : ''}`}
+            />
+            <span className={`text-[10px] w-8 text-right ${title.length > 70 ? 'text-yellow-400' : 'text-gray-600'}`}>{title.length}</span>
+            <button
+              onClick={() => update({ titles: value.titles.filter((_, j) => j !== i) })}
+              disabled={disabled || value.titles.length <= 1}
+              className="text-gray-500 hover:text-red-400 disabled:opacity-30 p-1 text-xs"
+              title="Remove title"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ titles: [...value.titles, ''] })}
+          disabled={disabled}
+          className="self-start text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+        >
+          + Add title
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className={labelClass}>Description</span>
+        <textarea
+          value={value.description}
+          onChange={(e) => update({ description: e.target.value })}
+          disabled={disabled}
+          rows={4}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Tags (comma separated)</span>
+          <input
+            value={tagsText}
+            onChange={(e) => {
+              setTagsText(e.target.value);
+              update({ tags: parseTags(e.target.value) });
+            }}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Hashtags</span>
+          <input
+            value={hashtagsText}
+            onChange={(e) => {
+              setHashtagsText(e.target.value);
+              update({ hashtags: parseHashtags(e.target.value) });
+            }}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {value.chapters && (
+        <div className="flex flex-col gap-1">
+          <span className={labelClass}>Chapters</span>
+          {value.chapters.map((chapter, i) => (
+            <span key={i} className="text-xs text-gray-300 font-mono">
+              {formatTimestamp(chapter.start)} <span className="font-sans">{chapter.title}</span>
+            </span>
+          ))}
+          {value.chapters.length === 0 && (
+            <span className="text-xs text-gray-500">
+              YouTube needs at least three chapters of 10 seconds or more; the headings don't add up to that yet.
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeoPanel;
@@ -1,70 +1,51 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GeneratedVideo, VideoSegment, AspectRatio } from '../types';
+import { GeneratedVideo } from '../types';
+import { loadVideoAssets } from '../services/mediaUtils';
+import { drawFrame, locateTime } from '../services/videoRenderer';
+import { PLAYBACK_RATES, PlaybackEngine, createPlaybackEngine } from '../services/playback';
+import { SegmentVisual, releaseVisuals, syncClips } from '../services/clips';
+import { getAspectValue, isShortForm } from '../services/aspectRatios';
+import { resolveStylePreset } from '../services/stylePresets';
+import ExportDialog from './ExportDialog';
 
 interface SmartPlayerProps {
   video: GeneratedVideo;
   onReset: () => void;
+  onEditStoryboard: () => void;
 }
 
-// Helper to decode base64 string to Uint8Array
-const decodeBase64 = (base64: string) => {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-};
-
-// Helper to decode raw PCM data (16-bit, 24kHz, mono) into AudioBuffer
-const decodePCM = (
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number = 24000,
-  numChannels: number = 1
-): AudioBuffer => {
-  // Ensure data length is even for Int16Array
-  if (data.byteLength % 2 !== 0) {
-    data = data.subarray(0, data.byteLength - 1);
-  }
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+const SEEK_STEP = 5; // seconds per arrow key press
+const PLAYER_MAX_HEIGHT = 711; // px, a 400px-wide 9:16 frame
 
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      // Convert PCM 16-bit to float [-1.0, 1.0]
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
 };
 
-const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
+const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset, onEditStoryboard }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentSegmentIndex, setCurrentSegmentIndex] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
   const [isLoaded, setIsLoaded] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
+  const [showExport, setShowExport] = useState(false);
 
   // Refs for audio/visual state
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioBuffersRef = useRef<AudioBuffer[]>([]);
-  const imageBitmapsRef = useRef<ImageBitmap[]>([]);
-  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  
-  // Animation state
-  const startTimeRef = useRef<number>(0);
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const imageBitmapsRef = useRef<SegmentVisual[]>([]);
   const animationFrameRef = useRef<number>(0);
-  const segmentStartTimeRef = useRef<number>(0);
+  // Resume after a scrub if the video was playing when the drag started
+  const resumeAfterScrubRef = useRef(false);
 
   // Initialize Assets
   useEffect(() => {
+    let disposed = false;
+
     const loadAssets = async () => {
       try {
         // Use standard AudioContext
@@ -72,57 +53,24 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
         const ctx = new AudioContextClass();
         audioContextRef.current = ctx;
 
-        const audioBuffers: AudioBuffer[] = [];
-        const images: ImageBitmap[] = [];
-
-        let loadedCount = 0;
-        const total = video.segments.length * 2;
-
-        const updateProgress = () => {
-          loadedCount++;
-          setLoadingProgress(Math.round((loadedCount / total) * 100));
-        };
-
-        for (const segment of video.segments) {
-          // 1. Decode Audio (PCM)
-          try {
-            const bytes = decodeBase64(segment.audioData);
-            // Gemini TTS returns 24kHz raw PCM mono
-            const audioBuffer = decodePCM(bytes, ctx, 24000, 1);
-            audioBuffers.push(audioBuffer);
-          } catch (err) {
-            console.error("Error decoding audio for segment", segment.id, err);
-            // Fallback to silent buffer to prevent crash
-            const silent = ctx.createBuffer(1, 24000, 24000); 
-            audioBuffers.push(silent);
-          }
-          updateProgress();
-
-          // 2. Load Image
-          try {
-            // Try detecting mime type or default to jpeg which is standard for Gemini Image
-            const response = await fetch(`data:image/jpeg;base64,${segment.imageData}`);
-            const imgBlob = await response.blob();
-            const imgBitmap = await createImageBitmap(imgBlob);
-            images.push(imgBitmap);
-          } catch (err) {
-            console.error("Error loading image for segment", segment.id, err);
-            // Fallback placeholder (1x1 transparent)
-            const canvas = document.createElement('canvas');
-            canvas.width = 1; canvas.height = 1;
-            const fallback = await createImageBitmap(canvas);
-            images.push(fallback);
-          }
-          updateProgress();
+        const assets = await loadVideoAssets(video, ctx, setLoadingProgress);
+        if (disposed) {
+          releaseVisuals(assets.images);
+          return;
         }
 
-        audioBuffersRef.current = audioBuffers;
-        imageBitmapsRef.current = images;
+        imageBitmapsRef.current = assets.images;
+        const engine = createPlaybackEngine(ctx, video, assets);
+        engineRef.current = engine;
+        setDuration(engine.timeline.total);
+        setCurrentTime(0);
         setIsLoaded(true);
-        
+        renderLoop();
+
         // Try to auto play if context is allowed
         if (ctx.state === 'running') {
-            playSegment(0);
+          await engine.play();
+          setIsPlaying(true);
         }
       } catch (e) {
         console.error("Fatal error loading assets", e);
@@ -132,229 +80,144 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
     loadAssets();
 
     return () => {
-      if (audioContextRef.current) {
-          audioContextRef.current.close();
-      }
+      disposed = true;
+      engineRef.current?.dispose();
+      engineRef.current = null;
+      audioContextRef.current?.close();
+      releaseVisuals(imageBitmapsRef.current);
+      imageBitmapsRef.current = [];
       if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = 0;
     };
   }, [video]);
 
-  const playSegment = (index: number) => {
-    if (index >= video.segments.length) {
-      setIsPlaying(false);
-      return;
-    }
-
-    const ctx = audioContextRef.current;
-    if (!ctx) return;
-
-    if (currentSourceRef.current) {
-      try { currentSourceRef.current.stop(); } catch(e) {}
-    }
-
-    const source = ctx.createBufferSource();
-    source.buffer = audioBuffersRef.current[index];
-    source.connect(ctx.destination);
-    
-    source.onended = () => {
-       // Only advance if we are still playing (not stopped manually)
-       // We assume standard playback flow here
-       playSegment(index + 1);
-    };
-
-    source.start();
-    currentSourceRef.current = source;
-    
-    setCurrentSegmentIndex(index);
-    segmentStartTimeRef.current = performance.now();
-    setIsPlaying(true);
-    
-    if (!animationFrameRef.current) {
-        renderLoop();
-    }
-  };
-
-  const togglePlay = async () => {
-    const ctx = audioContextRef.current;
-    if (!ctx) return;
-
-    if (ctx.state === 'suspended') {
-        await ctx.resume();
-    }
-
-    if (isPlaying) {
-      if (ctx.state === 'running') {
-        await ctx.suspend();
-        setIsPlaying(false);
-      }
-    } else {
-      if (ctx.state === 'suspended') {
-        await ctx.resume();
-        setIsPlaying(true);
-        renderLoop();
-      } else {
-        // If we were fully stopped/finished, restart
-        if (currentSegmentIndex >= video.segments.length || (currentSegmentIndex >= video.segments.length - 1 && !currentSourceRef.current)) {
-            playSegment(0);
-        } else {
-            setIsPlaying(true);
-            renderLoop();
-        }
-      }
-    }
-  };
-
+  // Draws whatever the audio clock says is playing. Runs continuously so seeks while
+  // paused and resizes show up immediately.
   const renderLoop = () => {
-    if (!canvasRef.current || !containerRef.current) return;
-    
-    // Check if we should stop
-    if (!isPlaying && audioContextRef.current?.state === 'suspended') {
-        animationFrameRef.current = requestAnimationFrame(renderLoop); 
-        return;
-    }
+    animationFrameRef.current = requestAnimationFrame(renderLoop);
 
+    const engine = engineRef.current;
     const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!engine || !canvas || !container) return;
+
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     // Handle Resize
-    const { clientWidth, clientHeight } = containerRef.current;
+    const { clientWidth, clientHeight } = container;
     if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
       canvas.width = clientWidth;
       canvas.height = clientHeight;
     }
 
-    const segmentIdx = currentSegmentIndex;
-    if (segmentIdx >= video.segments.length) return;
-
-    const now = performance.now();
-    const buffer = audioBuffersRef.current[segmentIdx];
-    const segmentDuration = buffer ? buffer.duration * 1000 : 5000;
-    
-    // Calculate elapsed time. Note: This simple elapsed check drifts if paused via suspend
-    // but works for continuous playback which is the primary use case.
-    const elapsed = now - segmentStartTimeRef.current;
-    const progress = Math.min(Math.max(elapsed / segmentDuration, 0), 1);
-
-    // --- RENDER ---
-    
-    // 1. Background / Image
-    const img = imageBitmapsRef.current[segmentIdx];
-    if (img) {
-      ctx.save();
-      
-      // Ken Burns Effect
-      const scale = 1.0 + (progress * 0.15); // 15% zoom
-      
-      const imgRatio = img.width / img.height;
-      const canvasRatio = canvas.width / canvas.height;
-      
-      let renderW, renderH, offsetX, offsetY;
-      
-      if (imgRatio > canvasRatio) {
-        renderH = canvas.height;
-        renderW = renderH * imgRatio;
-        offsetX = (canvas.width - renderW) / 2;
-        offsetY = 0;
-      } else {
-        renderW = canvas.width;
-        renderH = renderW / imgRatio;
-        offsetX = 0;
-        offsetY = (canvas.height - renderH) / 2;
-      }
+    const time = engine.update();
+    const { timeline } = engine;
+    const { index, elapsed } = locateTime(timeline, time);
+    syncClips(imageBitmapsRef.current, index, elapsed, engine.isPlaying(), engine.getRate());
+
+    drawFrame(ctx, canvas.width, canvas.height, video, imageBitmapsRef.current, {
+      segmentIndex: index,
+      segmentTime: Math.min(elapsed, timeline.durations[index] || 0),
+      segmentDuration: timeline.durations[index] || 0,
+      totalProgress: timeline.total > 0 ? time / timeline.total : 0,
+    });
 
-      ctx.translate(canvas.width/2, canvas.height/2);
-      ctx.scale(scale, scale);
-      ctx.translate(-canvas.width/2, -canvas.height/2);
-      
-      ctx.drawImage(img, offsetX, offsetY, renderW, renderH);
-      ctx.restore();
+    // Mirror the clock into React state for the controls; bail-outs keep this cheap
+    setCurrentTime(Math.round(time * 10) / 10);
+    setIsPlaying(engine.isPlaying());
+  };
+
+  const togglePlay = async () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (engine.isPlaying()) {
+      engine.pause();
     } else {
-       ctx.fillStyle = "#111";
-       ctx.fillRect(0,0, canvas.width, canvas.height);
+      await engine.play();
     }
+    setIsPlaying(engine.isPlaying());
+  };
 
-    // 2. Overlay Gradient
-    const gradient = ctx.createLinearGradient(0, canvas.height * 0.5, 0, canvas.height);
-    gradient.addColorStop(0, "rgba(0,0,0,0)");
-    gradient.addColorStop(0.7, "rgba(0,0,0,0.6)");
-    gradient.addColorStop(1, "rgba(0,0,0,0.9)");
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, canvas.height * 0.4, canvas.width, canvas.height * 0.6);
-
-    // 3. Captions
-    const text = video.segments[segmentIdx].text;
-    
-    // Responsive Font Size
-    const fontSize = video.aspectRatio === AspectRatio.PORTRAIT 
-        ? canvas.width * 0.08 
-        : canvas.width * 0.04;
-        
-    ctx.font = `800 ${fontSize}px Inter, system-ui, sans-serif`;
-    ctx.fillStyle = "white";
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.shadowColor = "rgba(0,0,0,1)";
-    ctx.shadowBlur = 12;
-    ctx.shadowOffsetX = 2;
-    ctx.shadowOffsetY = 2;
-    
-    // Word Wrap
-    const words = text.split(' ');
-    let line = '';
-    const lines = [];
-    const maxWidth = canvas.width * 0.85;
-    
-    for(let n = 0; n < words.length; n++) {
-      const testLine = line + words[n] + ' ';
-      const metrics = ctx.measureText(testLine);
-      if (metrics.width > maxWidth && n > 0) {
-        lines.push(line);
-        line = words[n] + ' ';
-      } else {
-        line = testLine;
-      }
-    }
-    lines.push(line);
-
-    // Draw lines
-    const lineHeight = fontSize * 1.3;
-    const totalTextHeight = lines.length * lineHeight;
-    const startY = (canvas.height * 0.8) - (totalTextHeight / 2);
-    
-    lines.forEach((l, i) => {
-      ctx.fillText(l, canvas.width / 2, startY + (i * lineHeight));
-    });
+  const seekBy = (delta: number) => {
+    const engine = engineRef.current;
+    if (engine) engine.seek(engine.update() + delta);
+  };
 
-    // 4. Progress Bar
-    const totalDuration = audioBuffersRef.current.reduce((acc, b) => acc + (b?.duration || 0), 0);
-    const prevDuration = audioBuffersRef.current.slice(0, segmentIdx).reduce((acc, b) => acc + (b?.duration || 0), 0);
-    
-    // Rough estimate of total progress
-    const currentProgress = (prevDuration + (elapsed/1000));
-    const totalProgressPct = Math.min(currentProgress / totalDuration, 1);
-    
-    // Bar container
-    ctx.fillStyle = "rgba(255,255,255,0.2)";
-    ctx.fillRect(0, canvas.height - 6, canvas.width, 6);
-    
-    // Active bar
-    ctx.fillStyle = "#3b82f6"; // Blue-500
-    ctx.fillRect(0, canvas.height - 6, canvas.width * totalProgressPct, 6);
-
-    if (isPlaying) {
-      animationFrameRef.current = requestAnimationFrame(renderLoop);
-    }
+  const changeRate = (rate: number) => {
+    engineRef.current?.setRate(rate);
+    setPlaybackRate(rate);
   };
 
+  const handleScrubStart = () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    resumeAfterScrubRef.current = engine.isPlaying();
+    engine.pause();
+  };
+
+  const handleScrubEnd = () => {
+    if (resumeAfterScrubRef.current) engineRef.current?.play();
+    resumeAfterScrubRef.current = false;
+  };
+
+  // Keyboard shortcuts: Space/K play-pause, ←/→ seek, Shift+←/→ or P/N previous/next
+  // scene, Home/End, </> playback speed
   useEffect(() => {
-     if (isPlaying) {
-         renderLoop();
-     } else {
-         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-     }
-  }, [isPlaying, currentSegmentIndex]);
+    if (!isLoaded || showExport) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input:not([type=range]), textarea, select, [contenteditable=true]')) return;
+      // A focused button already handles Space as a click
+      if (e.key === ' ' && target.closest('button')) return;
+      const engine = engineRef.current;
+      if (!engine || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const rateIndex = PLAYBACK_RATES.indexOf(engine.getRate());
+      const handled = (() => {
+        switch (e.key) {
+          case ' ':
+          case 'k':
+            togglePlay();
+            return true;
+          case 'ArrowLeft':
+            e.shiftKey ? engine.previousSegment() : seekBy(-SEEK_STEP);
+            return true;
+          case 'ArrowRight':
+            e.shiftKey ? engine.nextSegment() : seekBy(SEEK_STEP);
+            return true;
+          case 'p':
+            engine.previousSegment();
+            return true;
+          case 'n':
+            engine.nextSegment();
+            return true;
+          case 'Home':
+            engine.seek(0);
+            return true;
+          case 'End':
+            engine.seek(engine.timeline.total);
+            return true;
+          case '<':
+            if (rateIndex > 0) changeRate(PLAYBACK_RATES[rateIndex - 1]);
+            return true;
+          case '>':
+            if (rateIndex < PLAYBACK_RATES.length - 1) changeRate(PLAYBACK_RATES[rateIndex + 1]);
+            return true;
+          default:
+            return false;
+        }
+      })();
+      if (handled) e.preventDefault();
+    };
 
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isLoaded, showExport]);
+
+  const timeline = engineRef.current?.timeline;
+  const currentSegment = timeline ? locateTime(timeline, currentTime).index : 0;
 
   if (!isLoaded) {
     return (
@@ -368,15 +231,18 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
     );
   }
 
+  // Short-form frames are capped in height so they fit on screen
+  const frameRatio = getAspectValue(video.aspectRatio);
+  const playerWidth = { maxWidth: isShortForm(video.aspectRatio) ? Math.round(PLAYER_MAX_HEIGHT * frameRatio) : undefined };
+
   return (
     <div className="flex flex-col gap-6 animate-fade-in">
        <div 
          ref={containerRef}
-         className={`relative w-full bg-black rounded-2xl overflow-hidden shadow-2xl border border-gray-800 mx-auto ${
-           video.aspectRatio === AspectRatio.PORTRAIT ? 'max-w-[400px] aspect-[9/16]' : 'aspect-video'
-         }`}
+         style={{ ...playerWidth, aspectRatio: frameRatio }}
+         className="relative w-full bg-black rounded-2xl overflow-hidden shadow-2xl border border-gray-800 mx-auto"
        >
-         <canvas ref={canvasRef} className="w-full h-full object-cover block" />
+         <canvas ref={canvasRef} onClick={togglePlay} className="w-full h-full object-cover block cursor-pointer" />
          
          {/* Play Overlay */}
          {!isPlaying && (
@@ -394,7 +260,7 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
          
          <div className="absolute top-4 left-4 flex gap-2">
              <div className="bg-black/60 backdrop-blur px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider text-white/90 border border-white/10 shadow-lg">
-                {video.style}
+                {resolveStylePreset(video).name}
              </div>
              <div className="bg-blue-600/80 backdrop-blur px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider text-white shadow-lg">
                 HD
@@ -402,6 +268,51 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
          </div>
        </div>
 
+       {/* Transport controls */}
+       <div style={playerWidth} className="flex flex-col gap-2 w-full mx-auto">
+         <div className="relative h-4 flex items-center">
+           {/* Scene boundaries */}
+           {timeline && timeline.starts.slice(1).map((start, i) => (
+             <span
+               key={i}
+               className="absolute top-0.5 bottom-0.5 w-px bg-gray-600 pointer-events-none"
+               style={{ left: `${(start / (duration || 1)) * 100}%` }}
+             />
+           ))}
+           <input
+             type="range"
+             min={0}
+             max={duration}
+             step={0.01}
+             value={Math.min(currentTime, duration)}
+             onPointerDown={handleScrubStart}
+             onPointerUp={handleScrubEnd}
+             onChange={(e) => engineRef.current?.seek(Number(e.target.value))}
+             className="w-full accent-blue-500 cursor-pointer"
+             aria-label="Seek"
+           />
+         </div>
+         <div className="flex items-center gap-3 text-sm text-gray-300">
+           <button onClick={() => engineRef.current?.previousSegment()} className="hover:text-white px-1" title="Previous scene (Shift+←)">⏮</button>
+           <button onClick={togglePlay} className="hover:text-white px-1 w-6" title="Play/Pause (Space)">
+             {isPlaying ? '❚❚' : '▶'}
+           </button>
+           <button onClick={() => engineRef.current?.nextSegment()} className="hover:text-white px-1" title="Next scene (Shift+→)">⏭</button>
+           <span className="text-xs text-gray-400 tabular-nums">
+             {formatTime(currentTime)} / {formatTime(duration)}
+           </span>
+           <span className="text-xs text-gray-500">Scene {currentSegment + 1}/{video.segments.length}</span>
+           <select
+             value={playbackRate}
+             onChange={(e) => changeRate(Number(e.target.value))}
+             className="ml-auto bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-1 text-xs text-white"
+             title="Playback speed (< / >)"
+           >
+             {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+           </select>
+         </div>
+       </div>
+
        <div className="flex justify-between items-center px-2">
          <button 
            onClick={onReset}
@@ -414,14 +325,22 @@ const SmartPlayer: React.FC<SmartPlayerProps> = ({ video, onReset }) => {
          </button>
          
          <div className="flex gap-2">
+            <button
+                className="text-gray-300 hover:text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-white/5 transition-colors"
+                onClick={onEditStoryboard}
+            >
+            Edit Storyboard
+            </button>
             <button 
                 className="text-blue-400 hover:text-blue-300 text-sm font-medium px-4 py-2 rounded-lg hover:bg-blue-500/10 transition-colors"
-                onClick={() => alert("Recording feature coming soon! For now, please use your device's screen recorder.")}
+                onClick={() => setShowExport(true)}
             >
             Download Video
             </button>
          </div>
        </div>
+
+       {showExport && <ExportDialog video={video} onClose={() => setShowExport(false)} />}
     </div>
   );
 };
@@ -0,0 +1,658 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, CaptionStyle, GeneratedVideo, MotionPreset, MusicTrack, SeoMetadata, TransitionType, VideoSegment } from '../types';
+import {
+  generateMissingAssets,
+  needsAudio,
+  needsImage,
+  regenerateSegmentAudio,
+  regenerateSegmentImage,
+} from '../services/geminiService';
+import { getAudioMimeType, getImageMimeType, getSegmentAudioDuration, isVideoClip, playAudioPreview } from '../services/mediaUtils';
+import {
+  addAudioTake,
+  addImageTake,
+  getActiveAudioTake,
+  getActiveImageTake,
+  selectAudioTake,
+  selectImageTake,
+} from '../services/takes';
+import { Recording, importAudio, importVisualFile, startRecording } from '../services/userMedia';
+import { stripSpeakerLabels } from '../services/voices';
+import { EMPTY_STYLE_BIBLE } from '../services/styleBible';
+import { getVideoProviders } from '../services/providers';
+import { getCaptionStyle } from '../services/captionStyles';
+import { formatError } from '../services/errors';
+import { ASPECT_RATIOS, getAspectValue, getCropZoom } from '../services/aspectRatios';
+import { MOTION_PRESETS, TRANSITIONS, getSegmentMotion, getSegmentTransition, randomizeSegmentMotion } from '../services/motion';
+import { resolveStylePreset } from '../services/stylePresets';
+import { refreshChapters } from '../services/seo';
+import CaptionStylePanel from './CaptionStylePanel';
+import MusicPanel from './MusicPanel';
+import CropEditor from './CropEditor';
+import StyleBiblePanel from './StyleBiblePanel';
+import SeoPanel from './SeoPanel';
+
+interface StoryboardEditorProps {
+  video: GeneratedVideo;
+  onSave: (video: GeneratedVideo) => void;
+  onCancel: () => void;
+}
+
+const createEmptySegment = (): VideoSegment => ({
+  id: `seg-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  text: '',
+  imagePrompt: '',
+  imageData: '',
+  audioData: '',
+  duration: 5,
+  imageTakes: [],
+  audioTakes: [],
+});
+
+const StoryboardEditor: React.FC<StoryboardEditorProps> = ({ video, onSave, onCancel }) => {
+  const [segments, setSegments] = useState<VideoSegment[]>(video.segments);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(video.aspectRatio);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(() => getCaptionStyle(video));
+  const [showCaptionStyle, setShowCaptionStyle] = useState(false);
+  const [music, setMusic] = useState<MusicTrack | undefined>(video.music);
+  const [showMusic, setShowMusic] = useState(false);
+  const [seo, setSeo] = useState<SeoMetadata | undefined>(video.seo);
+  const [showSeo, setShowSeo] = useState(false);
+  const [consistency, setConsistency] = useState(() => ({
+    styleBible: video.styleBible || EMPTY_STYLE_BIBLE,
+    referenceImages: video.referenceImages || [],
+    useFirstImageAsReference: video.useFirstImageAsReference ?? false,
+  }));
+  const [showConsistency, setShowConsistency] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [progressMsg, setProgressMsg] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busySegment, setBusySegment] = useState<{ id: string; kind: 'image' | 'audio' } | null>(null);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the editor stops a regeneration run too, so it doesn't keep spending quota
+  useEffect(() => () => {
+    stopPreviewRef.current?.();
+    recordingRef.current?.cancel();
+    abortRef.current?.abort();
+  }, []);
+
+  const isBusy = isRegenerating || busySegment !== null || recordingId !== null;
+
+  const staleCount = segments.reduce(
+    (acc, s) => acc + (needsImage(s) ? 1 : 0) + (needsAudio(s) ? 1 : 0),
+    0
+  );
+  const hasMissingAssets = segments.some(s => !s.imageData || !s.audioData);
+  const hasEmptyScenes = segments.some(s => !s.text.trim() || !s.imagePrompt.trim());
+
+  const updateSegment = (index: number, patch: Partial<VideoSegment>) => {
+    setSegments(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  // Stale = the active take was generated from different text. Reverting an edit clears it again.
+  const handleTextChange = (index: number, text: string) => {
+    const take = getActiveAudioTake(segments[index]);
+    updateSegment(index, { text, audioStale: !!take && take.source !== text });
+  };
+
+  const handlePromptChange = (index: number, imagePrompt: string) => {
+    const take = getActiveImageTake(segments[index]);
+    updateSegment(index, { imagePrompt, imageStale: !!take && take.source !== imagePrompt });
+  };
+
+  const replaceSegment = (updated: VideoSegment) => {
+    setSegments(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+  };
+
+  const handleRegenerateOne = async (segment: VideoSegment, kind: 'image' | 'audio') => {
+    setBusySegment({ id: segment.id, kind });
+    setError(null);
+    try {
+      replaceSegment(kind === 'image'
+        ? await regenerateSegmentImage(segment, { ...video, ...consistency, aspectRatio, segments })
+        : await regenerateSegmentAudio(segment, video));
+    } catch (e) {
+      console.error(e);
+      setError(formatError(e));
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  // Uploads become a new take, so the generated one is still a click away
+  const handleVisualUpload = async (segment: VideoSegment, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusySegment({ id: segment.id, kind: 'image' });
+    setError(null);
+    try {
+      const { data, mimeType } = await importVisualFile(file);
+      replaceSegment(addImageTake(segment, data, segment.imagePrompt, { mimeType, origin: 'upload' }));
+    } catch (err) {
+      setError(formatError(err));
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  const attachAudio = async (segment: VideoSegment, blob: Blob, origin: 'upload' | 'recording') => {
+    setBusySegment({ id: segment.id, kind: 'audio' });
+    setError(null);
+    try {
+      const { data, ...details } = await importAudio(blob, stripSpeakerLabels(segment.text, video.voice));
+      replaceSegment(addAudioTake(segment, data, segment.text, { ...details, origin }));
+    } catch (err) {
+      setError(formatError(err));
+    } finally {
+      setBusySegment(null);
+    }
+  };
+
+  const handleAudioUpload = (segment: VideoSegment, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) attachAudio(segment, file, 'upload');
+  };
+
+  const toggleRecording = async (segment: VideoSegment) => {
+    if (recordingRef.current) {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      setRecordingId(null);
+      await attachAudio(segment, await recording.stop(), 'recording');
+      return;
+    }
+    setError(null);
+    stopPreviewRef.current?.();
+    try {
+      recordingRef.current = await startRecording();
+      setRecordingId(segment.id);
+    } catch (err) {
+      setError(formatError(err));
+    }
+  };
+
+  // Thumbnails show the same crop as the renderer: cover-fit around the focal point, then cropZoom
+  const getThumbStyle = (segment: VideoSegment): React.CSSProperties => {
+    const motion = getSegmentMotion(segment);
+    const origin = `${motion.focusX * 100}% ${motion.focusY * 100}%`;
+    return { objectPosition: origin, transformOrigin: origin, transform: `scale(${getCropZoom(motion)})` };
+  };
+
+  const stylePreset = resolveStylePreset(video);
+
+  const randomizeMotion = () => {
+    setSegments(prev => prev.map(s => randomizeSegmentMotion(s, stylePreset.motion)));
+  };
+
+  const handlePreview = (segment: VideoSegment) => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = playAudioPreview(segment.audioData, getAudioMimeType(segment));
+  };
+
+  const insertSegment = (index: number) => {
+    setSegments(prev => [...prev.slice(0, index), createEmptySegment(), ...prev.slice(index)]);
+  };
+
+  const deleteSegment = (index: number) => {
+    setSegments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveSegment = (from: number, to: number) => {
+    if (from === to) return;
+    setSegments(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleRegenerate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      // Checkpoint into local state so assets made before a failure or cancel are kept
+      const updated = await generateMissingAssets({ ...video, ...consistency, aspectRatio, segments }, (p) => setProgressMsg(p.message), {
+        signal: controller.signal,
+        onCheckpoint: (partial) => setSegments(partial.segments),
+      });
+      setSegments(updated.segments);
+    } catch (e) {
+      console.error(e);
+      setError(formatError(e));
+    } finally {
+      abortRef.current = null;
+      setIsRegenerating(false);
+      setProgressMsg('');
+    }
+  };
+
+  // Reorders and new voiceovers move the chapters
+  const handleSave = () => onSave(refreshChapters({ ...video, ...consistency, aspectRatio, segments, captionStyle, music, seo }));
+
+  const selectClass = "bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-1 text-xs text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  const frameRatio = getAspectValue(aspectRatio);
+  const thumbWidth = frameRatio > 1 ? 'w-32' : frameRatio === 1 ? 'w-24' : 'w-20';
+
+  return (
+    <div className="flex flex-col gap-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Storyboard</h2>
+          <p className="text-sm text-gray-400">
+            Edit, reorder, add or remove scenes. Only edited scenes are regenerated.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <select
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+            disabled={isBusy}
+            className={selectClass}
+            title="Format. Existing images are re-cropped around their focal points; new ones are generated at this ratio."
+          >
+            {ASPECT_RATIOS.map(info => <option key={info.id} value={info.id}>{info.label} ({info.desc})</option>)}
+          </select>
+          <button
+            onClick={randomizeMotion}
+            disabled={isBusy}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+            title={`Pick new camera moves and transitions to suit the ${stylePreset.name} style`}
+          >
+            🎲 Randomize motion
+          </button>
+          <div className="text-xs text-gray-500">{segments.length} scenes</div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {segments.map((segment, index) => (
+          <React.Fragment key={segment.id}>
+            <div
+              draggable={!isBusy}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveSegment(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`glass-panel rounded-xl p-4 flex gap-4 items-start transition-opacity ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
+              <div className="flex flex-col items-center gap-2 text-gray-500 cursor-grab select-none pt-1">
+                <span className="text-xs font-bold">{index + 1}</span>
+                <span title="Drag to reorder">⋮⋮</span>
+              </div>
+
+              <div className="flex flex-col gap-2 flex-shrink-0">
+                <div
+                  onClick={() => segment.imageData && setCroppingId(croppingId === segment.id ? null : segment.id)}
+                  title="Click to adjust framing"
+                  style={{ aspectRatio: frameRatio }}
+                  className={`${thumbWidth} rounded-lg overflow-hidden bg-gray-900 relative ${segment.imageData ? 'cursor-pointer' : ''}`}
+                >
+                  {segment.imageData && (isVideoClip(segment.imageMimeType) ? (
+                    <video
+                      src={`data:${segment.imageMimeType};base64,${segment.imageData}`}
+                      muted
+                      loop
+                      autoPlay
+                      playsInline
+                      style={getThumbStyle(segment)}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <img
+                      src={`data:${getImageMimeType(segment)};base64,${segment.imageData}`}
+                      alt=""
+                      style={getThumbStyle(segment)}
+                      className="w-full h-full object-cover"
+                    />
+                  ))}
+                  {needsImage(segment) && (
+                    <span className="absolute bottom-1 left-1 bg-yellow-500/90 text-black text-[10px] font-bold px-1.5 rounded">
+                      {segment.imageData ? 'STALE' : 'NEW'}
+                    </span>
+                  )}
+                  {busySegment?.id === segment.id && busySegment.kind === 'image' && (
+                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-[10px] text-white animate-pulse">
+                      Working...
+                    </div>
+                  )}
+                </div>
+
+                {segment.imageTakes.length > 1 && (
+                  <div className="flex flex-wrap gap-1 max-w-32">
+                    {segment.imageTakes.map((take, t) => (
+                      <button
+                        key={take.id}
+                        onClick={() => replaceSegment(selectImageTake(segment, take.id))}
+                        disabled={isBusy}
+                        title={`Take ${t + 1}${take.origin === 'upload' ? ' (uploaded)' : ''}`}
+                        className={`w-6 h-6 rounded overflow-hidden border-2 ${take.id === segment.activeImageTakeId ? 'border-blue-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                      >
+                        {isVideoClip(take.mimeType) ? (
+                          <span className="w-full h-full flex items-center justify-center bg-gray-800 text-[10px]">🎬</span>
+                        ) : (
+                          <img src={`data:${take.mimeType || 'image/jpeg'};base64,${take.data}`} alt="" className="w-full h-full object-cover" />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  onClick={() => handleRegenerateOne(segment, 'image')}
+                  disabled={isBusy || !segment.imagePrompt.trim()}
+                  className="text-[11px] text-blue-400 hover:text-blue-300 disabled:text-gray-600 text-left"
+                >
+                  ↻ New image
+                </button>
+                <label
+                  className={`text-[11px] text-left ${isBusy ? 'text-gray-600' : 'text-blue-400 hover:text-blue-300 cursor-pointer'}`}
+                  title="Use your own image or video clip for this scene"
+                >
+                  ⬆ Image/clip
+                  <input
+                    type="file"
+                    accept="image/*,video/*"
+                    onChange={(e) => handleVisualUpload(segment, e)}
+                    disabled={isBusy}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+
+              <div className="flex-1 flex flex-col gap-2 min-w-0">
+                <label className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider">Narration</label>
+                <textarea
+                  value={segment.text}
+                  onChange={(e) => handleTextChange(index, e.target.value)}
+                  disabled={isBusy}
+                  rows={2}
+                  className="w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <label className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider">Visual Prompt</label>
+                <textarea
+                  value={segment.imagePrompt}
+                  onChange={(e) => handlePromptChange(index, e.target.value)}
+                  disabled={isBusy}
+                  rows={2}
+                  className="w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                  <button
+                    onClick={() => handlePreview(segment)}
+                    disabled={!segment.audioData}
+                    className="hover:text-white disabled:cursor-default"
+                    title="Preview voiceover"
+                  >
+                    🔊 {segment.audioData ? `${getSegmentAudioDuration(segment).toFixed(1)}s` : 'no audio'}
+                  </button>
+                  {segment.audioTakes.length > 1 && (
+                    <div className="flex gap-1">
+                      {segment.audioTakes.map((take, t) => (
+                        <button
+                          key={take.id}
+                          onClick={() => replaceSegment(selectAudioTake(segment, take.id))}
+                          disabled={isBusy}
+                          title={take.origin && take.origin !== 'generated' ? `${take.source} (${take.origin})` : take.source}
+                          className={`px-1.5 rounded border ${take.id === segment.activeAudioTakeId ? 'border-blue-500 text-white' : 'border-gray-700 hover:text-white'}`}
+                        >
+                          V{t + 1}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => handleRegenerateOne(segment, 'audio')}
+                    disabled={isBusy || !segment.text.trim()}
+                    className="text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+                  >
+                    {busySegment?.id === segment.id && busySegment.kind === 'audio' ? 'Working...' : '↻ New voiceover'}
+                  </button>
+                  <label
+                    className={isBusy ? 'text-gray-600' : 'text-blue-400 hover:text-blue-300 cursor-pointer'}
+                    title="Use your own voiceover file for this scene"
+                  >
+                    ⬆ Audio
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      onChange={(e) => handleAudioUpload(segment, e)}
+                      disabled={isBusy}
+                      className="hidden"
+                    />
+                  </label>
+                  <button
+                    onClick={() => toggleRecording(segment)}
+                    disabled={isBusy && recordingId !== segment.id}
+                    className={recordingId === segment.id ? 'text-red-400 hover:text-red-300 animate-pulse' : 'text-blue-400 hover:text-blue-300 disabled:text-gray-600'}
+                    title="Record the narration with your microphone"
+                  >
+                    {recordingId === segment.id ? '■ Stop recording' : '● Record'}
+                  </button>
+                  {needsAudio(segment) && segment.audioData && (
+                    <span className="text-yellow-400">voiceover out of date</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                  <select
+                    value={getSegmentMotion(segment).preset}
+                    onChange={(e) => updateSegment(index, {
+                      motion: { ...getSegmentMotion(segment), preset: e.target.value as MotionPreset },
+                    })}
+                    disabled={isBusy}
+                    className={selectClass}
+                    title="Camera motion"
+                  >
+                    {MOTION_PRESETS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                  {index > 0 && (
+                    <>
+                      <select
+                        value={getSegmentTransition(segment).type}
+                        onChange={(e) => {
+                          const type = e.target.value as TransitionType;
+                          const current = getSegmentTransition(segment);
+                          updateSegment(index, {
+                            transition: { type, duration: type === 'cut' ? 0 : current.duration || 0.5 },
+                          });
+                        }}
+                        disabled={isBusy}
+                        className={selectClass}
+                        title="Transition from the previous scene"
+                      >
+                        {TRANSITIONS.map(t => <option key={t.id} value={t.id}>{t.label} in</option>)}
+                      </select>
+                      {getSegmentTransition(segment).type !== 'cut' && (
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={0.1}
+                            max={2}
+                            step={0.1}
+                            value={getSegmentTransition(segment).duration}
+                            onChange={(e) => updateSegment(index, {
+                              transition: {
+                                ...getSegmentTransition(segment),
+                                duration: Math.min(Math.max(Number(e.target.value) || 0.1, 0.1), 2),
+                              },
+                            })}
+                            disabled={isBusy}
+                            className={`${selectClass} w-16`}
+                          />
+                          s
+                        </label>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <button
+                onClick={() => deleteSegment(index)}
+                disabled={isBusy || segments.length <= 1}
+                className="text-gray-500 hover:text-red-400 disabled:opacity-30 p-1"
+                title="Delete scene"
+              >
+                ✕
+              </button>
+            </div>
+
+            {croppingId === segment.id && segment.imageData && (
+              <CropEditor
+                segment={segment}
+                aspectRatio={aspectRatio}
+                onChange={(motion) => updateSegment(index, { motion })}
+                onClose={() => setCroppingId(null)}
+                disabled={isBusy}
+              />
+            )}
+
+            <button
+              onClick={() => insertSegment(index + 1)}
+              disabled={isBusy}
+              className="text-xs text-gray-500 hover:text-blue-400 py-1 transition-colors"
+            >
+              + Insert scene
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="glass-panel rounded-xl p-4">
+        <button
+          onClick={() => setShowConsistency(v => !v)}
+          className="w-full flex justify-between items-center text-sm font-semibold text-gray-300 hover:text-white"
+        >
+          Visual Consistency
+          <span className="text-gray-500">{showConsistency ? '▲' : '▼'}</span>
+        </button>
+        {showConsistency && (
+          <div className="mt-4 flex flex-col gap-2">
+            <p className="text-xs text-gray-500">Applies to images generated from now on.</p>
+            <StyleBiblePanel
+              value={consistency}
+              onChange={(patch) => setConsistency(prev => ({ ...prev, ...patch }))}
+              imageProvider={getVideoProviders(video).image}
+              disabled={isBusy}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="glass-panel rounded-xl p-4">
+        <button
+          onClick={() => setShowCaptionStyle(v => !v)}
+          className="w-full flex justify-between items-center text-sm font-semibold text-gray-300 hover:text-white"
+        >
+          Caption Style
+          <span className="text-gray-500">{showCaptionStyle ? '▲' : '▼'}</span>
+        </button>
+        {showCaptionStyle && (
+          <div className="mt-4">
+            <CaptionStylePanel
+              value={captionStyle}
+              onChange={setCaptionStyle}
+              aspectRatio={aspectRatio}
+              disabled={isBusy}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="glass-panel rounded-xl p-4">
+        <button
+          onClick={() => setShowMusic(v => !v)}
+          className="w-full flex justify-between items-center text-sm font-semibold text-gray-300 hover:text-white"
+        >
+          Background Music{music ? ` · ${music.name}` : ''}
+          <span className="text-gray-500">{showMusic ? '▲' : '▼'}</span>
+        </button>
+        {showMusic && (
+          <div className="mt-4">
+            <MusicPanel value={music} onChange={setMusic} disabled={isBusy} />
+          </div>
+        )}
+      </div>
+
+      {seo && (
+        <div className="glass-panel rounded-xl p-4">
+          <button
+            onClick={() => setShowSeo(v => !v)}
+            className="w-full flex justify-between items-center text-sm font-semibold text-gray-300 hover:text-white"
+          >
+            YouTube Metadata
+            <span className="text-gray-500">{showSeo ? '▲' : '▼'}</span>
+          </button>
+          {showSeo && (
+            <div className="mt-4">
+              <SeoPanel
+                value={refreshChapters({ ...video, segments, seo }).seo!}
+                onChange={setSeo}
+                disabled={isBusy}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-900/20 border border-red-800 rounded-xl text-red-200 text-center">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center px-2">
+        <button
+          onClick={onCancel}
+          disabled={isBusy}
+          className="text-gray-400 hover:text-white text-sm px-4 py-2 rounded-lg hover:bg-white/5 transition-colors"
+        >
+          Discard Changes
+        </button>
+
+        <div className="flex gap-2 items-center">
+          {isRegenerating && <span className="text-xs text-gray-400 animate-pulse">{progressMsg}</span>}
+          {isRegenerating && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="text-red-400 hover:text-red-300 text-sm font-medium px-4 py-2 rounded-lg hover:bg-red-500/10 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleRegenerate}
+            disabled={isBusy || staleCount === 0 || hasEmptyScenes}
+            className="text-blue-400 hover:text-blue-300 disabled:text-gray-600 text-sm font-medium px-4 py-2 rounded-lg hover:bg-blue-500/10 transition-colors"
+          >
+            Regenerate Stale Assets ({staleCount})
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isBusy || hasMissingAssets}
+            title={hasMissingAssets ? 'New scenes need their assets generated first' : undefined}
+            className="bg-white text-black disabled:bg-gray-700 disabled:text-gray-500 text-sm font-bold px-4 py-2 rounded-lg transition-all"
+          >
+            Save & Play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardEditor;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ProviderSelection, VideoScript } from '../types';
+import { MAX_REFERENCE_IMAGES, STYLE_BIBLE_FIELDS, createReferenceImage } from '../services/styleBible';
+import { getImageGenerator, getProvider } from '../services/providers';
+
+type Consistency = Pick<VideoScript, 'styleBible' | 'referenceImages' | 'useFirstImageAsReference'>;
+
+interface StyleBiblePanelProps {
+  value: Consistency;
+  onChange: (patch: Partial<Consistency>) => void;
+  imageProvider: ProviderSelection;
+  disabled?: boolean;
+}
+
+const StyleBiblePanel: React.FC<StyleBiblePanelProps> = ({ value, onChange, imageProvider, disabled }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { styleBible, referenceImages, useFirstImageAsReference } = value;
+  const supportsReferences = getImageGenerator(imageProvider).supportsReferences;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files || [])];
+    e.target.value = '';
+    setError(null);
+    try {
+      const added = await Promise.all(files.slice(0, MAX_REFERENCE_IMAGES - referenceImages.length).map(createReferenceImage));
+      onChange({ referenceImages: [...referenceImages, ...added] });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none";
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {STYLE_BIBLE_FIELDS.map(field => (
+          <label key={field.id} className="flex flex-col gap-1">
+            <span className={labelClass}>{field.label}</span>
+            <textarea
+              value={styleBible[field.id]}
+              onChange={(e) => onChange({ styleBible: { ...styleBible, [field.id]: e.target.value } })}
+              disabled={disabled}
+              placeholder={field.placeholder}
+              rows={2}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={labelClass}>Reference images</span>
+        <div className="flex flex-wrap gap-2 items-center">
+          {referenceImages.map(ref => (
+            <div key={ref.id} className="relative w-16 h-16 rounded-lg overflow-hidden bg-gray-900 group" title={ref.name}>
+              <img src={`data:${ref.mimeType};base64,${ref.data}`} alt={ref.name} className="w-full h-full object-cover" />
+              <button
+                onClick={() => onChange({ referenceImages: referenceImages.filter(r => r.id !== ref.id) })}
+                disabled={disabled}
+                className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-black/70 text-white text-[10px] opacity-0 group-hover:opacity-100"
+                title="Remove"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {referenceImages.length < MAX_REFERENCE_IMAGES && (
+            <label className={`w-16 h-16 rounded-lg border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-500 ${disabled ? 'opacity-50' : 'hover:border-gray-500 hover:text-white cursor-pointer'}`}>
+              + Add
+              <input type="file" accept="image/*" multiple onChange={handleFiles} disabled={disabled} className="hidden" />
+            </label>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={useFirstImageAsReference}
+            onChange={(e) => onChange({ useFirstImageAsReference: e.target.checked })}
+            disabled={disabled}
+          />
+          Use scene 1's image as a reference for the other scenes
+        </label>
+        {!supportsReferences && (
+          <p className="text-xs text-yellow-400">
+            {getProvider(imageProvider.providerId).label} ignores reference images; only the style bible is used.
+          </p>
+        )}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StyleBiblePanel;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { CaptionStyle, StylePreset, VoiceSettings } from '../types';
+import {
+  BUILT_IN_STYLE_PRESETS,
+  DEFAULT_STYLE_PRESET_ID,
+  IMAGE_TEMPLATE_PLACEHOLDERS,
+  deleteStylePreset,
+  duplicateStylePreset,
+  exportStylePresets,
+  getStylePreset,
+  getStylePresets,
+  importStylePresets,
+  isBuiltInPreset,
+  isPresetEdited,
+  renderImagePrompt,
+  saveStylePreset,
+} from '../services/stylePresets';
+import { MOTION_STYLES } from '../services/motion';
+import { downloadBlob } from '../services/mediaUtils';
+
+interface StylePresetPanelProps {
+  value: string; // selected preset id
+  onChange: (preset: StylePreset) => void;
+  voice: VoiceSettings; // what "use current voice & captions" stores in the preset
+  captionStyle: CaptionStyle;
+  disabled?: boolean;
+}
+
+const SAMPLE_SCENE = 'A lighthouse on a rocky coast at dusk';
+
+const StylePresetPanel: React.FC<StylePresetPanelProps> = ({ value, onChange, voice, captionStyle, disabled }) => {
+  const [presets, setPresets] = useState<StylePreset[]>(getStylePresets);
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = presets.find(p => p.id === value) || getStylePreset(value);
+  const refresh = () => setPresets(getStylePresets());
+
+  const update = (patch: Partial<StylePreset>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.imagePromptTemplate.trim()) return;
+    const preset = { ...draft, name: draft.name.trim() };
+    saveStylePreset(preset);
+    refresh();
+    setDraft(null);
+    onChange(preset);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateStylePreset(selected);
+    refresh();
+    onChange(copy);
+    setDraft(copy);
+  };
+
+  // Deletes a custom preset, or resets a built-in to its defaults
+  const handleDelete = () => {
+    if (!draft) return;
+    const builtIn = isBuiltInPreset(draft.id);
+    if (!builtIn && !window.confirm(`Delete the style "${draft.name}"?`)) return;
+    deleteStylePreset(draft.id);
+    refresh();
+    setDraft(null);
+    onChange(getStylePreset(builtIn ? draft.id : DEFAULT_STYLE_PRESET_ID));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await importStylePresets(file);
+      refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const labelClass = "text-[10px] font-semibold text-gray-400 uppercase tracking-wider";
+  const inputClass = "w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none";
+  const linkClass = "text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 gap-2">
+        {presets.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset)}
+            disabled={disabled}
+            className={`p-3 rounded-lg text-left transition-all border ${
+              value === preset.id
+                ? 'bg-blue-600/20 border-blue-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+            }`}
+          >
+            <div className="font-medium text-sm truncate">{preset.name}</div>
+            <div className="text-xs opacity-70 mt-1 truncate">{preset.description || ' '}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <button onClick={() => setDraft(selected)} disabled={disabled} className={linkClass}>✎ Edit</button>
+        <button onClick={handleDuplicate} disabled={disabled} className={linkClass}>⧉ Duplicate</button>
+        <button onClick={() => downloadBlob(exportStylePresets(presets), 'tubegen-styles.json')} className={linkClass}>
+          ↓ Export
+        </button>
+        <label className={`${linkClass} cursor-pointer`}>
+          ⬆ Import
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {draft && (
+        <div className="flex flex-col gap-3 p-3 rounded-lg bg-gray-900/60 border border-gray-700">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Name</span>
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Description</span>
+              <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Script tone</span>
+            <textarea
+              value={draft.tone}
+              onChange={(e) => update({ tone: e.target.value })}
+              placeholder="How the narration should sound"
+              rows={2}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>Image prompt template</span>
+            <textarea
+              value={draft.imagePromptTemplate}
+              onChange={(e) => update({ imagePromptTemplate: e.target.value })}
+              rows={2}
+              className={`${inputClass} font-mono`}
+            />
+            <span className="text-[10px] text-gray-500">
+              {IMAGE_TEMPLATE_PLACEHOLDERS.map(p => `${p.key} ${p.desc}`).join(' · ')}
+            </span>
+            <span className="text-[10px] text-gray-500 truncate" title={renderImagePrompt(draft, SAMPLE_SCENE, '')}>
+              Preview: {renderImagePrompt(draft, SAMPLE_SCENE, '')}
+            </span>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Avoid in images</span>
+              <input
+                value={draft.negativePrompt}
+                onChange={(e) => update({ negativePrompt: e.target.value })}
+                placeholder="e.g. text, watermark, clutter"
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>Camera motion</span>
+              <select value={draft.motion} onChange={(e) => update({ motion: e.target.value })} className={inputClass}>
+                {MOTION_STYLES.map(id => (
+                  <option key={id} value={id}>{BUILT_IN_STYLE_PRESETS.find(p => p.id === id)?.name || id}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-3 items-center text-xs text-gray-400">
+            <span>
+              Defaults: {draft.voice ? draft.voice.voiceName : 'keep current voice'}
+              {' · '}{draft.captionStyle ? `${draft.captionStyle.presetId} captions` : 'keep current captions'}
+            </span>
+            <button onClick={() => update({ voice, captionStyle })} className={linkClass}>Use current voice & captions</button>
+            {(draft.voice || draft.captionStyle) && (
+              <button onClick={() => update({ voice: undefined, captionStyle: undefined })} className={linkClass}>Clear</button>
+            )}
+          </div>
+          <div className="flex justify-between items-center">
+            <div>
+              {(!isBuiltInPreset(draft.id) || isPresetEdited(draft.id)) && (
+                <button onClick={handleDelete} className="text-xs text-red-400 hover:text-red-300">
+                  {isBuiltInPreset(draft.id) ? 'Reset to default' : 'Delete'}
+                </button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => setDraft(null)} className="text-xs text-gray-400 hover:text-white px-3 py-1.5">Cancel</button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || !draft.imagePromptTemplate.trim()}
+                className="text-xs font-bold bg-white text-black px-3 py-1.5 rounded-lg disabled:bg-gray-800 disabled:text-gray-600"
+              >
+                Save style
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPanel;
@@ -1,4 +1,209 @@
-// Deprecated in favor of SmartPlayer
-import React from 'react';
-const VideoHistory = () => <div></div>;
-export default VideoHistory;
\ No newline at end of file
+import React, { useEffect, useState } from 'react';
+import { GeneratedVideo } from '../types';
+import {
+  ProjectSummary,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  loadProject,
+  renameProject,
+  saveProject,
+} from '../services/projectStore';
+import { exportProjectBundle, importProjectBundle } from '../services/projectBundle';
+import { downloadBlob } from '../services/mediaUtils';
+import { getExportFileName } from '../services/videoExporter';
+import { getAspectRatioInfo } from '../services/aspectRatios';
+
+interface VideoHistoryProps {
+  refreshKey: number; // bump to reload the list after a save elsewhere
+  onOpen: (video: GeneratedVideo) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const VideoHistory: React.FC<VideoHistoryProps> = ({ refreshKey, onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error(e);
+      setError("Could not read your saved videos.");
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Object URLs for thumbnails, revoked whenever the list changes
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    for (const p of projects) {
+      if (p.thumbnail) urls[p.id] = URL.createObjectURL(p.thumbnail);
+    }
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (id: string) => runAction(id, async () => onOpen(await loadProject(id)));
+
+  const handleExport = (id: string) => runAction(id, async () => {
+    const video = await loadProject(id);
+    downloadBlob(exportProjectBundle(video), getExportFileName(video, 'tubegen.zip'));
+  });
+
+  // Imported projects get a new id, so they land next to any existing copy
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await saveProject(await importProjectBundle(file));
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDuplicate = (id: string) => runAction(id, async () => {
+    await duplicateProject(id);
+    await refresh();
+  });
+
+  const handleDelete = (p: ProjectSummary) => {
+    if (!confirm(`Delete "${p.title}"? This cannot be undone.`)) return;
+    runAction(p.id, async () => {
+      await deleteProject(p.id);
+      await refresh();
+    });
+  };
+
+  const startRename = (p: ProjectSummary) => {
+    setEditingId(p.id);
+    setDraftTitle(p.title);
+  };
+
+  const commitRename = (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    runAction(id, async () => {
+      await renameProject(id, title);
+      await refresh();
+    });
+  };
+
+  return (
+    <div className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+          Your Videos
+        </h2>
+        <label
+          className={`text-xs ${isImporting ? 'text-gray-600 animate-pulse' : 'text-blue-400 hover:text-blue-300 cursor-pointer'}`}
+          title="Open a project bundle exported from TubeGen"
+        >
+          {isImporting ? 'Importing...' : '⬆ Import project'}
+          <input type="file" accept=".zip,application/zip" onChange={handleImport} disabled={isImporting} className="hidden" />
+        </label>
+      </div>
+
+      {projects.length === 0 && !error && (
+        <p className="text-sm text-gray-500">Videos you generate or import are saved here.</p>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-800 rounded-lg text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {projects.map(p => (
+          <div
+            key={p.id}
+            className={`glass-panel rounded-xl overflow-hidden flex flex-col transition-opacity ${busyId === p.id ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            <button onClick={() => handleOpen(p.id)} className="relative aspect-video bg-gray-900 block w-full">
+              {thumbnails[p.id] && (
+                <img src={thumbnails[p.id]} alt="" className="w-full h-full object-cover" />
+              )}
+              <div className="absolute top-2 left-2 flex gap-1">
+                <span className="bg-black/60 backdrop-blur px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider text-white/90">
+                  {p.style}
+                </span>
+                <span className="bg-black/60 backdrop-blur px-2 py-0.5 rounded-full text-[10px] font-bold text-white/90">
+                  {getAspectRatioInfo(p.aspectRatio).desc}
+                </span>
+              </div>
+            </button>
+
+            <div className="p-3 flex flex-col gap-2 flex-1">
+              {editingId === p.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={() => commitRename(p.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(p.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="bg-gray-900/80 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              ) : (
+                <div className="text-sm font-medium text-white line-clamp-2" title={p.topic}>{p.title}</div>
+              )}
+              <div className="text-xs text-gray-500">
+                {formatDate(p.timestamp)} · {p.segmentCount} scenes
+              </div>
+
+              <div className="flex gap-1 mt-auto pt-1 text-xs">
+                <button onClick={() => handleOpen(p.id)} className="px-2 py-1 rounded text-blue-400 hover:bg-blue-500/10">Open</button>
+                <button onClick={() => startRename(p)} className="px-2 py-1 rounded text-gray-400 hover:text-white hover:bg-white/5">Rename</button>
+                <button onClick={() => handleDuplicate(p.id)} className="px-2 py-1 rounded text-gray-400 hover:text-white hover:bg-white/5">Duplicate</button>
+                <button
+                  onClick={() => handleExport(p.id)}
+                  className="px-2 py-1 rounded text-gray-400 hover:text-white hover:bg-white/5"
+                  title="Download the project with all its images and voiceovers"
+                >
+                  Export
+                </button>
+                <button onClick={() => handleDelete(p)} className="px-2 py-1 rounded text-red-400 hover:bg-red-500/10 ml-auto">Delete</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VideoHistory;
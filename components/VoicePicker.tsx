@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProviderSelection, SpeakingPace, VoiceSettings } from '../types';
+import { previewVoice } from '../services/geminiService';
+import { formatError } from '../services/errors';
+import { playAudioPreview } from '../services/mediaUtils';
+import { DEFAULT_PROVIDER_SETTINGS, getSpeechGenerator } from '../services/providers';
+
+interface VoicePickerProps {
+  value: VoiceSettings;
+  onChange: (voice: VoiceSettings) => void;
+  provider?: ProviderSelection; // the speech backend whose voices are offered
+  disabled?: boolean;
+}
+
+const PACES: { id: SpeakingPace; label: string }[] = [
+  { id: 'slow', label: 'Slow' },
+  { id: 'normal', label: 'Normal' },
+  { id: 'fast', label: 'Fast' },
+];
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ value, onChange, provider = DEFAULT_PROVIDER_SETTINGS.tts, disabled }) => {
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopPreviewRef.current?.(), []);
+
+  const update = (patch: Partial<VoiceSettings>) => onChange({ ...value, ...patch });
+
+  const handlePreview = async (voiceName: string) => {
+    stopPreviewRef.current?.();
+    setPreviewing(voiceName);
+    setPreviewError(null);
+    try {
+      const audio = await previewVoice({ ...value, voiceName }, provider);
+      stopPreviewRef.current = playAudioPreview(audio.data, audio.mimeType);
+    } catch (e) {
+      console.error(e);
+      setPreviewError(formatError(e));
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const selectClass = "flex-1 bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  const voices = getSpeechGenerator(provider).voices;
+
+  const voiceSelect = (voiceName: string, onSelect: (name: string) => void) => (
+    <div className="flex gap-2 flex-1">
+      <select value={voiceName} onChange={(e) => onSelect(e.target.value)} disabled={disabled || voices.length === 0} className={selectClass}>
+        {voices.length === 0 && <option value={voiceName}>Set by the voice model</option>}
+        {voices.map(v => (
+          <option key={v.name} value={v.name}>{v.name} ({v.desc})</option>
+        ))}
+      </select>
+      <button
+        onClick={() => handlePreview(voiceName)}
+        disabled={disabled || previewing !== null}
+        className="px-3 rounded-lg border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 text-sm"
+        title="Preview voice"
+      >
+        {previewing === voiceName ? '…' : '▶'}
+      </button>
+    </div>
+  );
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg border text-sm font-medium transition-all ${
+      active
+        ? 'bg-blue-600/20 border-blue-500 text-white'
+        : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+    }`;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <button onClick={() => update({ mode: 'single' })} disabled={disabled} className={optionClass(value.mode === 'single')}>
+          Narrator
+        </button>
+        <button onClick={() => update({ mode: 'dialogue' })} disabled={disabled} className={optionClass(value.mode === 'dialogue')}>
+          Two Hosts
+        </button>
+      </div>
+
+      {value.mode === 'single' ? (
+        voiceSelect(value.voiceName, (voiceName) => update({ voiceName }))
+      ) : (
+        value.speakers.map((speaker, i) => (
+          <div key={i} className="flex gap-2">
+            <input
+              value={speaker.speaker}
+              onChange={(e) => update({
+                speakers: value.speakers.map((s, j) => (j === i ? { ...s, speaker: e.target.value } : s)),
+              })}
+              disabled={disabled}
+              placeholder={`Host ${i + 1}`}
+              className="w-24 bg-gray-900/80 border border-gray-700 rounded-lg px-2 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            {voiceSelect(speaker.voiceName, (voiceName) => update({
+              speakers: value.speakers.map((s, j) => (j === i ? { ...s, voiceName } : s)),
+            }))}
+          </div>
+        ))
+      )}
+
+      <div className="flex gap-2">
+        {PACES.map(p => (
+          <button key={p.id} onClick={() => update({ pace: p.id })} disabled={disabled} className={optionClass(value.pace === p.id)}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <input
+        value={value.tone}
+        onChange={(e) => update({ tone: e.target.value })}
+        disabled={disabled}
+        placeholder="Tone, e.g. warm and enthusiastic, calm documentary"
+        className="w-full bg-gray-900/80 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      {previewError && <p className="text-xs text-red-300">{previewError}</p>}
+    </div>
+  );
+};
+
+export default VoicePicker;
@@ -0,0 +1,73 @@
+import { AspectRatio, SegmentMotion } from "../types";
+
+// Every output format in one table, so adding a ratio doesn't mean hunting down
+// `=== AspectRatio.PORTRAIT` checks.
+
+export interface AspectRatioInfo {
+  id: AspectRatio;
+  label: string;
+  desc: string;
+  width: number; // ratio terms, e.g. 16 and 9
+  height: number;
+  captionScale: number; // caption font size as a fraction of the frame width
+  maxWordsPerLine: number; // default caption chunk length
+}
+
+export const ASPECT_RATIOS: AspectRatioInfo[] = [
+  { id: AspectRatio.PORTRAIT, label: 'Shorts', desc: '9:16', width: 9, height: 16, captionScale: 0.08, maxWordsPerLine: 3 },
+  { id: AspectRatio.LANDSCAPE, label: 'YouTube', desc: '16:9', width: 16, height: 9, captionScale: 0.04, maxWordsPerLine: 6 },
+  { id: AspectRatio.SQUARE, label: 'Square', desc: '1:1', width: 1, height: 1, captionScale: 0.06, maxWordsPerLine: 4 },
+  { id: AspectRatio.PORTRAIT_4_5, label: 'Feed', desc: '4:5', width: 4, height: 5, captionScale: 0.07, maxWordsPerLine: 4 },
+];
+
+export const getAspectRatioInfo = (aspectRatio: AspectRatio) =>
+  ASPECT_RATIOS.find(info => info.id === aspectRatio) || ASPECT_RATIOS[0];
+
+// Accepts a ratio or a label, in any case ("9:16", "shorts")
+export const findAspectRatio = (value: string) => {
+  const key = value.trim().toLowerCase();
+  return ASPECT_RATIOS.find(info => info.id === key || info.label.toLowerCase() === key)?.id;
+};
+
+// Width / height
+export const getAspectValue = (aspectRatio: AspectRatio) => {
+  const { width, height } = getAspectRatioInfo(aspectRatio);
+  return width / height;
+};
+
+// Everything except 16:9 is paced like a Short
+export const isShortForm = (aspectRatio: AspectRatio) => aspectRatio !== AspectRatio.LANDSCAPE;
+
+// Frame size with the given short side, rounded to even numbers for the video encoders
+export const getFrameSize = (aspectRatio: AspectRatio, shortSide: number) => {
+  const ratio = getAspectValue(aspectRatio);
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return ratio >= 1
+    ? { width: even(shortSide * ratio), height: shortSide }
+    : { width: shortSide, height: even(shortSide / ratio) };
+};
+
+export const getCropZoom = (motion: SegmentMotion) => Math.max(motion.cropZoom ?? 1, 1);
+
+// The part of the image that ends up in a frame of the given ratio, as 0..1 fractions of the
+// image. Same placement as drawSegmentImage: cover-fit, scaled by cropZoom, and the focal
+// point at the same relative position in the frame as in the image (CSS object-position).
+export const getCropRect = (imageWidth: number, imageHeight: number, frameRatio: number, motion: SegmentMotion) => {
+  const imageRatio = imageWidth / imageHeight;
+  const zoom = getCropZoom(motion);
+  const width = (imageRatio > frameRatio ? frameRatio / imageRatio : 1) / zoom;
+  const height = (imageRatio > frameRatio ? 1 : imageRatio / frameRatio) / zoom;
+  return {
+    x: (1 - width) * motion.focusX,
+    y: (1 - height) * motion.focusY,
+    width,
+    height,
+  };
+};
+
+// Inverse of getCropRect: the focal point that centres the crop on (x, y) as far as it can
+export const getFocusForCropCenter = (x: number, y: number, crop: { width: number; height: number }) => {
+  const solve = (center: number, size: number) =>
+    size >= 1 ? 0.5 : Math.min(Math.max((center - size / 2) / (1 - size), 0), 1);
+  return { focusX: solve(x, crop.width), focusY: solve(y, crop.height) };
+};
@@ -0,0 +1,165 @@
+import { GeneratedVideo, MusicTrack } from "../types";
+import { getSegmentWordTimings } from "./captions";
+import { Timeline } from "./videoRenderer";
+
+// The audio graph shared by the live player (AudioContext) and the exporter
+// (OfflineAudioContext), so what you hear is exactly what gets rendered:
+//
+//   narration sources ───────────────────────────────────────────┐
+//   music source → fade gain → duck gain → volume gain ──────────┴→ destination
+
+const DUCK_ATTACK = 0.15; // seconds to dip before speech starts
+const DUCK_RELEASE = 0.4; // seconds to recover after it stops
+const SPEECH_MERGE_GAP = 0.6; // pauses shorter than this keep the music ducked
+
+export const DEFAULT_MUSIC_SETTINGS: Omit<MusicTrack, 'name' | 'mimeType' | 'data'> = {
+  volume: 0.5,
+  duckLevel: 0.25,
+  trimStart: 0,
+  trimEnd: 0,
+  loop: true,
+  fadeIn: 1.5,
+  fadeOut: 2,
+};
+
+type Envelope = [time: number, value: number][];
+
+// Windows (global seconds) where someone is talking, from the caption word timings
+export const getSpeechIntervals = (video: GeneratedVideo, timeline: Timeline): [number, number][] => {
+  const intervals: [number, number][] = [];
+  video.segments.forEach((_, i) => {
+    for (const word of getSegmentWordTimings(video, i, timeline.durations[i])) {
+      const start = timeline.starts[i] + word.start;
+      const end = timeline.starts[i] + word.end;
+      const last = intervals[intervals.length - 1];
+      if (last && start - last[1] < SPEECH_MERGE_GAP) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        intervals.push([start, end]);
+      }
+    }
+  });
+  return intervals;
+};
+
+const buildDuckEnvelope = (intervals: [number, number][], duckLevel: number): Envelope => {
+  const points: Envelope = [[0, 1]];
+  const push = (time: number, value: number) => {
+    const lastTime = points[points.length - 1][0];
+    points.push([Math.max(time, lastTime), value]);
+  };
+  for (const [start, end] of intervals) {
+    push(start - DUCK_ATTACK, 1);
+    push(start, duckLevel);
+    push(end, duckLevel);
+    push(end + DUCK_RELEASE, 1);
+  }
+  return points;
+};
+
+const buildFadeEnvelope = (total: number, fadeIn: number, fadeOut: number): Envelope => {
+  // Very short videos: shrink both fades so they still fit
+  const scale = fadeIn + fadeOut > total ? total / (fadeIn + fadeOut) : 1;
+  return [[0, 0], [fadeIn * scale, 1], [total - fadeOut * scale, 1], [total, 0]];
+};
+
+const valueAt = (points: Envelope, time: number) => {
+  for (let i = 1; i < points.length; i++) {
+    const [t1, v1] = points[i];
+    if (time <= t1) {
+      const [t0, v0] = points[i - 1];
+      return t1 > t0 ? v0 + ((v1 - v0) * (time - t0)) / (t1 - t0) : v1;
+    }
+  }
+  return points[points.length - 1][1];
+};
+
+// Schedules an envelope on a param, starting `from` seconds into the timeline at context time
+// `when`. At playback rate r, one timeline second lasts 1/r seconds of context time.
+const applyEnvelope = (param: AudioParam, points: Envelope, when: number, from: number, rate: number) => {
+  param.setValueAtTime(valueAt(points, from), when);
+  for (const [time, value] of points) {
+    if (time > from) param.linearRampToValueAtTime(value, when + (time - from) / rate);
+  }
+};
+
+// Starts the music bed. Returns the nodes to stop, or none if the trim leaves nothing to play.
+export const scheduleMusic = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  video: GeneratedVideo,
+  buffer: AudioBuffer,
+  timeline: Timeline,
+  when: number,
+  from = 0,
+  rate = 1
+): AudioScheduledSourceNode[] => {
+  const music = video.music;
+  if (!music || from >= timeline.total) return [];
+
+  const trimStart = Math.min(music.trimStart, buffer.duration);
+  const trimEnd = music.trimEnd > trimStart ? Math.min(music.trimEnd, buffer.duration) : buffer.duration;
+  const clipLength = trimEnd - trimStart;
+  if (clipLength <= 0 || (!music.loop && from >= clipLength)) return [];
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const fadeGain = ctx.createGain();
+  const duckGain = ctx.createGain();
+  const volumeGain = ctx.createGain();
+  applyEnvelope(fadeGain.gain, buildFadeEnvelope(timeline.total, music.fadeIn, music.fadeOut), when, from, rate);
+  applyEnvelope(duckGain.gain, buildDuckEnvelope(getSpeechIntervals(video, timeline), music.duckLevel), when, from, rate);
+  volumeGain.gain.value = music.volume;
+
+  source.playbackRate.value = rate;
+  source.connect(fadeGain).connect(duckGain).connect(volumeGain).connect(destination);
+
+  if (music.loop) {
+    source.loop = true;
+    source.loopStart = trimStart;
+    source.loopEnd = trimEnd;
+    source.start(when, trimStart + (from % clipLength));
+  } else {
+    source.start(when, trimStart + from, clipLength - from);
+  }
+  source.stop(when + (timeline.total - from) / rate);
+  return [source];
+};
+
+// Schedules the full mix (narration end to end plus the music bed) from `from` seconds.
+// The player reschedules through here on every play, seek and rate change.
+export const scheduleMix = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  video: GeneratedVideo,
+  narration: AudioBuffer[],
+  music: AudioBuffer | null,
+  timeline: Timeline,
+  when: number,
+  from = 0,
+  rate = 1
+): AudioScheduledSourceNode[] => {
+  const sources: AudioScheduledSourceNode[] = [];
+
+  narration.forEach((buffer, i) => {
+    const start = timeline.starts[i];
+    const end = start + buffer.duration;
+    if (end <= from) return;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(destination);
+    source.start(when + Math.max(start - from, 0) / rate, Math.max(from - start, 0));
+    sources.push(source);
+  });
+
+  if (music) sources.push(...scheduleMusic(ctx, destination, video, music, timeline, when, from, rate));
+  return sources;
+};
+
+export const stopSources = (sources: AudioScheduledSourceNode[]) => {
+  for (const source of sources) {
+    try { source.stop(); } catch (e) { /* already stopped */ }
+  }
+};
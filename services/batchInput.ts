@@ -0,0 +1,129 @@
+import { AspectRatio } from "../types";
+import { findAspectRatio } from "./aspectRatios";
+import { findStylePreset } from "./stylePresets";
+import { TARGET_DURATIONS } from "./scenePlan";
+
+// Turns what the user pastes into batch rows: either one topic per line, or a CSV whose
+// header has a `topic` column and optionally `style`, `aspect_ratio` (or `format`) and
+// `duration`. Empty cells fall back to the studio's current settings.
+
+export interface BatchRow {
+  topic: string;
+  style: string;
+  aspectRatio: AspectRatio;
+  targetDuration: number;
+}
+
+export type BatchDefaults = Omit<BatchRow, 'topic'>;
+
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: string[]; // one per rejected line; the other rows are still usable
+}
+
+const COLUMN_ALIASES: Record<string, keyof BatchRow> = {
+  topic: 'topic',
+  idea: 'topic',
+  style: 'style',
+  aspect_ratio: 'aspectRatio',
+  aspectratio: 'aspectRatio',
+  ratio: 'aspectRatio',
+  format: 'aspectRatio',
+  duration: 'targetDuration',
+  length: 'targetDuration',
+};
+
+// "1. ", "- ", "* " and "• " from pasted lists
+const LIST_MARKER = /^\s*(\d+[.)]|[-*•])\s+/;
+
+// RFC 4180: quoted cells may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(cells => cells.some(c => c.trim()));
+};
+
+const toHeaderKey = (cell: string) => COLUMN_ALIASES[cell.trim().toLowerCase().replace(/[\s-]+/g, '_')];
+
+// "60", "60s", "3 min" or "3m"
+const parseDuration = (value: string) => {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(s|sec|secs|seconds?|m|min|mins|minutes?)?$/);
+  if (!match) return undefined;
+  const seconds = parseFloat(match[1]) * (match[2]?.startsWith('m') ? 60 : 1);
+  return TARGET_DURATIONS.find(option => option.seconds === seconds)?.seconds;
+};
+
+const parseCsvRows = (cells: string[][], defaults: BatchDefaults): ParsedBatch => {
+  const columns = cells[0].map(toHeaderKey);
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+
+  cells.slice(1).forEach((line, i) => {
+    const where = `Row ${i + 2}`;
+    const value = (key: keyof BatchRow) => line[columns.indexOf(key)]?.trim() || '';
+    const topic = value('topic');
+    if (!topic) {
+      errors.push(`${where}: the topic is empty.`);
+      return;
+    }
+
+    const style = value('style') ? findStylePreset(value('style'))?.id : defaults.style;
+    const aspectRatio = value('aspectRatio') ? findAspectRatio(value('aspectRatio')) : defaults.aspectRatio;
+    const targetDuration = value('targetDuration') ? parseDuration(value('targetDuration')) : defaults.targetDuration;
+    if (!style) {
+      errors.push(`${where}: unknown style "${value('style')}".`);
+    } else if (!aspectRatio) {
+      errors.push(`${where}: unknown aspect ratio "${value('aspectRatio')}".`);
+    } else if (!targetDuration) {
+      errors.push(`${where}: the duration must be one of ${TARGET_DURATIONS.map(o => o.label).join(', ')}.`);
+    } else {
+      rows.push({ topic, style, aspectRatio, targetDuration });
+    }
+  });
+  return { rows, errors };
+};
+
+export const parseBatchInput = (text: string, defaults: BatchDefaults): ParsedBatch => {
+  const cells = parseCsv(text);
+  if (cells.length === 0) return { rows: [], errors: [] };
+  if (cells[0].map(toHeaderKey).includes('topic')) return parseCsvRows(cells, defaults);
+
+  // A plain list: every line is a topic, commas and all
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.replace(LIST_MARKER, '').trim())
+    .filter(Boolean)
+    .map(topic => ({ ...defaults, topic }));
+  return { rows, errors: [] };
+};
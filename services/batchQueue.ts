@@ -0,0 +1,172 @@
+import { CaptionStyle, GeneratedVideo, GenerationProgress, ProviderSettings, VoiceSettings } from "../types";
+import { generateMissingAssets, generateVideoWorkflow } from "./geminiService";
+import { GenerationError, toGenerationError } from "./errors";
+import { saveProject } from "./projectStore";
+import { BatchRow } from "./batchInput";
+import { RunLog, createRunLog } from "./runLog";
+
+// Generates a list of topics one after another, without the script review step. Items go
+// through the same module-wide scheduler as single runs, so a batch never exceeds the rate
+// budget; the concurrency limit only keeps a few videos in flight instead of all of them.
+// Each finished video is saved to the library straight away. Every attempt at an item gets
+// its own request log, kept on the item for its failure details.
+
+export type BatchItemStatus = 'queued' | 'planning' | 'generating' | 'paused' | 'done' | 'failed';
+
+export interface BatchRequest extends BatchRow {
+  voice: VoiceSettings;
+  captionStyle: CaptionStyle;
+  providers: ProviderSettings;
+}
+
+export interface BatchItem extends BatchRequest {
+  id: string;
+  status: BatchItemStatus;
+  message: string; // latest progress line
+  error?: GenerationError;
+  log?: RunLog; // requests of the latest attempt
+  videoId?: string; // the saved project, once done
+}
+
+export interface BatchQueue {
+  add: (requests: BatchRequest[]) => void;
+  pause: (id: string) => void; // stops a running item; a retry picks up from its last checkpoint
+  resume: (id: string) => void; // puts a paused or failed item back in the queue
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  getItems: () => BatchItem[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const BATCH_CONCURRENCY = 2;
+
+export const isBatchItemActive = (item: BatchItem) => item.status === 'planning' || item.status === 'generating';
+
+export const createBatchQueue = (onSaved?: (video: GeneratedVideo) => void, concurrency = BATCH_CONCURRENCY): BatchQueue => {
+  let items: BatchItem[] = [];
+  let nextId = 0;
+  const controllers = new Map<string, AbortController>();
+  // Partial videos from the asset phase, so a paused or failed item doesn't redo finished assets
+  const checkpoints = new Map<string, GeneratedVideo>();
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    notify();
+  };
+
+  const run = async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    // A paused or removed item may still report while its requests unwind
+    const isCurrent = () => !controller.signal.aborted;
+
+    const onProgress = (progress: GenerationProgress) => {
+      if (!isCurrent()) return;
+      update(item.id, progress.stage === 'planning'
+        ? { status: 'planning', message: progress.message }
+        : { status: 'generating', message: `Assets ${progress.completed}/${progress.total}` });
+    };
+    const log = createRunLog(`Batch: ${item.topic}`);
+    const options = {
+      signal: controller.signal,
+      log,
+      onCheckpoint: (video: GeneratedVideo) => {
+        if (isCurrent()) checkpoints.set(item.id, video);
+      },
+    };
+
+    update(item.id, { status: 'planning', message: 'Starting...', error: undefined, log });
+    try {
+      const checkpoint = checkpoints.get(item.id);
+      const result = checkpoint
+        ? await generateMissingAssets(checkpoint, onProgress, options)
+        : await generateVideoWorkflow(
+            item.topic, item.style, item.aspectRatio, onProgress, item.targetDuration,
+            item.voice, item.captionStyle, item.providers, options
+          );
+      // Kept until the save succeeds, so a retry only has to save again
+      checkpoints.set(item.id, result);
+      const saved = await saveProject(result);
+      checkpoints.delete(item.id);
+      update(item.id, { status: 'done', message: 'Saved to your library', videoId: saved.id });
+      onSaved?.(saved);
+    } catch (error) {
+      if (isCurrent()) {
+        console.error(error);
+        update(item.id, { status: 'failed', message: '', error: toGenerationError(error) });
+      }
+    } finally {
+      if (controllers.get(item.id) === controller) controllers.delete(item.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    let free = concurrency - items.filter(isBatchItemActive).length;
+    for (const item of items) {
+      if (free <= 0) break;
+      if (item.status !== 'queued') continue;
+      free--;
+      run(item);
+    }
+  };
+
+  const stop = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+  };
+
+  return {
+    add: (requests) => {
+      const base = Date.now();
+      items = [
+        ...items,
+        ...requests.map((request): BatchItem => ({
+          ...request,
+          id: `${base}-${nextId++}`,
+          status: 'queued',
+          message: '',
+        })),
+      ];
+      notify();
+      pump();
+    },
+
+    pause: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || !(item.status === 'queued' || isBatchItemActive(item))) return;
+      stop(id);
+      update(id, { status: 'paused', message: '' });
+      pump();
+    },
+
+    resume: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || !(item.status === 'paused' || item.status === 'failed')) return;
+      update(id, { status: 'queued', message: '', error: undefined });
+      pump();
+    },
+
+    remove: (id) => {
+      stop(id);
+      checkpoints.delete(id);
+      items = items.filter(item => item.id !== id);
+      notify();
+      pump();
+    },
+
+    clearFinished: () => {
+      items = items.filter(item => item.status !== 'done');
+      notify();
+    },
+
+    getItems: () => items,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { AspectRatio, CaptionStyle, GeneratedVideo } from "../types";
+import { getAspectRatioInfo } from "./aspectRatios";
+
+// Inter is loaded in index.html; the rest are common system fonts
+export const CAPTION_FONTS = [
+  { family: 'Inter', label: 'Inter' },
+  { family: 'Arial Black', label: 'Arial Black' },
+  { family: 'Impact', label: 'Impact' },
+  { family: 'Georgia', label: 'Georgia' },
+  { family: 'Courier New', label: 'Courier' },
+];
+
+const BASE_STYLE: CaptionStyle = {
+  presetId: 'classic',
+  fontFamily: 'Inter',
+  fontWeight: 800,
+  fontScale: 1,
+  color: '#ffffff',
+  highlightColor: '#facc15',
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  shadow: true,
+  boxColor: '#000000',
+  boxOpacity: 0,
+  position: 'bottom',
+  uppercase: false,
+  maxWordsPerLine: 4,
+  safeArea: { top: 0.08, bottom: 0.17, side: 0.075 },
+};
+
+export const CAPTION_PRESETS: { id: string; name: string; style: CaptionStyle }[] = [
+  { id: 'classic', name: 'Classic', style: BASE_STYLE },
+  {
+    id: 'bold-pop',
+    name: 'Bold Pop',
+    style: {
+      ...BASE_STYLE,
+      presetId: 'bold-pop',
+      fontFamily: 'Arial Black',
+      fontWeight: 900,
+      fontScale: 1.2,
+      highlightColor: '#22d3ee',
+      strokeWidth: 0.08,
+      shadow: false,
+      position: 'middle',
+      uppercase: true,
+      maxWordsPerLine: 2,
+    },
+  },
+  {
+    id: 'boxed',
+    name: 'Boxed',
+    style: {
+      ...BASE_STYLE,
+      presetId: 'boxed',
+      fontWeight: 700,
+      fontScale: 0.85,
+      highlightColor: '#60a5fa',
+      shadow: false,
+      boxOpacity: 0.7,
+      maxWordsPerLine: 5,
+    },
+  },
+  {
+    id: 'headline',
+    name: 'Headline',
+    style: {
+      ...BASE_STYLE,
+      presetId: 'headline',
+      fontFamily: 'Impact',
+      fontWeight: 400,
+      fontScale: 1.1,
+      color: '#fde047',
+      highlightColor: '#ffffff',
+      strokeWidth: 0.06,
+      position: 'top',
+      uppercase: true,
+      maxWordsPerLine: 3,
+    },
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    style: {
+      ...BASE_STYLE,
+      presetId: 'minimal',
+      fontWeight: 500,
+      fontScale: 0.75,
+      highlightColor: '',
+      maxWordsPerLine: 7,
+    },
+  },
+];
+
+export const getCaptionPreset = (id: string) =>
+  (CAPTION_PRESETS.find(p => p.id === id) || CAPTION_PRESETS[0]).style;
+
+// The look videos had before caption styles existed: short phrases on Shorts, longer on 16:9
+export const getDefaultCaptionStyle = (aspectRatio: AspectRatio): CaptionStyle => ({
+  ...BASE_STYLE,
+  maxWordsPerLine: getAspectRatioInfo(aspectRatio).maxWordsPerLine,
+});
+
+export const getCaptionStyle = (video: GeneratedVideo) =>
+  video.captionStyle || getDefaultCaptionStyle(video.aspectRatio);
+
+// Font size in pixels for a frame of the given width
+export const getCaptionFontSize = (style: CaptionStyle, aspectRatio: AspectRatio, width: number) =>
+  width * getAspectRatioInfo(aspectRatio).captionScale * style.fontScale;
@@ -0,0 +1,212 @@
+import { GeneratedVideo, WordTiming } from "../types";
+import { TTS_SAMPLE_RATE, decodeBase64, getPcmDuration, getSegmentAudioDuration } from "./mediaUtils";
+import { stripSpeakerLabels } from "./voices";
+import { getCaptionStyle } from "./captionStyles";
+
+// Word-level caption timing. TTS gives us no alignment data, so word boundaries are
+// estimated from the narration audio: silent stretches are found with a short-window
+// energy detector, and the words are spread over the voiced stretches in proportion
+// to their length. With no usable audio we fall back to a purely proportional split.
+
+const FRAME_SECONDS = 0.01; // 10ms analysis windows
+const MIN_PAUSE_SECONDS = 0.08; // shorter gaps are treated as part of a word
+
+export interface CaptionChunk {
+  words: WordTiming[];
+  start: number;
+  end: number;
+}
+
+export const splitCaptionWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Longer words take longer to say; +1 accounts for the gap between words
+const wordWeight = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '').length + 1;
+
+// 16-bit PCM -> float samples, without needing an AudioContext
+export const pcmToSamples = (bytes: Uint8Array) => {
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const samples = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) samples[i] = int16[i] / 32768;
+  return samples;
+};
+
+// Returns [start, end] ranges (seconds) where someone is speaking
+const findVoicedRanges = (samples: Float32Array, sampleRate: number): [number, number][] => {
+  const frameSize = Math.max(Math.round(sampleRate * FRAME_SECONDS), 1);
+  const frameCount = Math.floor(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const energies = new Float32Array(frameCount);
+  let peak = 0;
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += samples[i] * samples[i];
+    energies[f] = Math.sqrt(sum / frameSize);
+    peak = Math.max(peak, energies[f]);
+  }
+  if (peak === 0) return [];
+
+  // Threshold relative to the loudest frame; TTS output has a near-silent noise floor
+  const threshold = peak * 0.06;
+  const minPauseFrames = Math.round(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+
+  const ranges: [number, number][] = [];
+  let start = -1;
+  let silentRun = 0;
+  for (let f = 0; f < frameCount; f++) {
+    if (energies[f] >= threshold) {
+      if (start < 0) start = f;
+      silentRun = 0;
+    } else if (start >= 0) {
+      silentRun++;
+      if (silentRun >= minPauseFrames) {
+        ranges.push([start * FRAME_SECONDS, (f - silentRun + 1) * FRAME_SECONDS]);
+        start = -1;
+        silentRun = 0;
+      }
+    }
+  }
+  if (start >= 0) ranges.push([start * FRAME_SECONDS, (frameCount - silentRun) * FRAME_SECONDS]);
+  return ranges;
+};
+
+// Lays words over the given ranges as if the pauses between them didn't exist. A word
+// that would straddle a pause is snapped to whichever side holds most of it.
+const distributeWords = (words: string[], ranges: [number, number][]): WordTiming[] => {
+  const speechTotal = ranges.reduce((acc, [s, e]) => acc + (e - s), 0);
+  const weights = words.map(wordWeight);
+  const weightTotal = weights.reduce((a, b) => a + b, 0);
+
+  // Maps a position on the "speech only" clock to a range index and real time
+  const locate = (speechTime: number, preferNextRange: boolean) => {
+    let remaining = speechTime;
+    for (let r = 0; r < ranges.length; r++) {
+      const [s, e] = ranges[r];
+      const len = e - s;
+      const isBoundary = Math.abs(remaining - len) < 1e-9;
+      if (remaining < len || (isBoundary && !preferNextRange) || r === ranges.length - 1) {
+        return { range: r, time: s + Math.min(remaining, len) };
+      }
+      remaining -= len;
+    }
+    return { range: 0, time: 0 };
+  };
+
+  let cumulative = 0;
+  return words.map((word, i) => {
+    const from = locate((cumulative / weightTotal) * speechTotal, true);
+    cumulative += weights[i];
+    const to = locate((cumulative / weightTotal) * speechTotal, false);
+
+    if (from.range !== to.range) {
+      const before = ranges[from.range][1] - from.time;
+      const after = to.time - ranges[to.range][0];
+      return before >= after
+        ? { word, start: from.time, end: ranges[from.range][1] }
+        : { word, start: ranges[to.range][0], end: to.time };
+    }
+    return { word, start: from.time, end: to.time };
+  });
+};
+
+export const proportionalWordTimings = (text: string, duration: number): WordTiming[] => {
+  const words = splitCaptionWords(text);
+  if (words.length === 0) return [];
+  return distributeWords(words, [[0, duration]]);
+};
+
+export const estimateWordTimings = (samples: Float32Array, sampleRate: number, text: string): WordTiming[] => {
+  const words = splitCaptionWords(text);
+  if (words.length === 0) return [];
+
+  const ranges = findVoicedRanges(samples, sampleRate);
+  if (ranges.length === 0) return proportionalWordTimings(text, samples.length / sampleRate);
+  return distributeWords(words, ranges);
+};
+
+// Timings for a freshly generated TTS take (base64 24kHz PCM)
+export const timeWordsFromPcm = (audioData: string, captionText: string): WordTiming[] => {
+  try {
+    return estimateWordTimings(pcmToSamples(decodeBase64(audioData)), TTS_SAMPLE_RATE, captionText);
+  } catch (err) {
+    console.error("Could not analyse narration audio, using proportional captions", err);
+    return proportionalWordTimings(captionText, getPcmDuration(audioData));
+  }
+};
+
+// Stored timings are only trusted if they still describe the current narration
+export const getSegmentWordTimings = (
+  video: GeneratedVideo,
+  segmentIndex: number,
+  duration: number
+): WordTiming[] => {
+  const segment = video.segments[segmentIndex];
+  const text = stripSpeakerLabels(segment.text, video.voice);
+  const words = splitCaptionWords(text);
+  const stored = segment.wordTimings;
+  if (stored && !segment.audioStale && stored.length === words.length &&
+      stored.every((t, i) => t.word === words[i])) {
+    return stored;
+  }
+  return proportionalWordTimings(text, duration);
+};
+
+// Groups words into short on-screen phrases, breaking early at sentence punctuation
+export const buildCaptionChunks = (timings: WordTiming[], maxWords: number): CaptionChunk[] => {
+  const chunks: CaptionChunk[] = [];
+  let current: WordTiming[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({ words: current, start: current[0].start, end: current[current.length - 1].end });
+    current = [];
+  };
+
+  for (const timing of timings) {
+    current.push(timing);
+    if (current.length >= maxWords || /[.!?,;:]$/.test(timing.word)) flush();
+  }
+  flush();
+  return chunks;
+};
+
+// --- SRT / WebVTT export ---
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(Math.round(seconds * 1000), 0);
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Cues for the whole video with cumulative timestamps, one per caption chunk
+export const buildCaptionCues = (video: GeneratedVideo) => {
+  const { maxWordsPerLine } = getCaptionStyle(video);
+  const cues: { start: number; end: number; text: string }[] = [];
+
+  let offset = 0;
+  video.segments.forEach((segment, i) => {
+    const duration = getSegmentAudioDuration(segment);
+    for (const chunk of buildCaptionChunks(getSegmentWordTimings(video, i, duration), maxWordsPerLine)) {
+      cues.push({
+        start: offset + chunk.start,
+        end: offset + Math.min(chunk.end, duration),
+        text: chunk.words.map(w => w.word).join(' '),
+      });
+    }
+    offset += duration;
+  });
+  return cues;
+};
+
+export const buildSrt = (video: GeneratedVideo) =>
+  buildCaptionCues(video)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+
+export const buildVtt = (video: GeneratedVideo) =>
+  'WEBVTT\n\n' + buildCaptionCues(video)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
@@ -0,0 +1,77 @@
+// Video clips used as segment visuals. They're drawn onto the canvas like images, always
+// muted (the segment's narration is the only voice track) and looped to fill the segment.
+
+export type SegmentVisual = ImageBitmap | HTMLVideoElement;
+
+export const isClip = (visual: SegmentVisual): visual is HTMLVideoElement =>
+  typeof HTMLVideoElement !== 'undefined' && visual instanceof HTMLVideoElement;
+
+export const getVisualSize = (visual: SegmentVisual) =>
+  isClip(visual)
+    ? { width: visual.videoWidth, height: visual.videoHeight }
+    : { width: visual.width, height: visual.height };
+
+// Resolves once the first frame is decoded, so the clip can be drawn straight away
+export const loadClip = (blob: Blob) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error("This video clip can't be played by your browser."));
+    };
+    video.src = URL.createObjectURL(blob);
+  });
+
+// Where a looping clip should be after `elapsed` seconds of its segment
+export const clipTimeAt = (clip: HTMLVideoElement, elapsed: number) =>
+  clip.duration > 0 && Number.isFinite(clip.duration) ? elapsed % clip.duration : 0;
+
+// Frame-accurate positioning for the exporter
+export const seekClip = (clip: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    if (Math.abs(clip.currentTime - time) < 1e-3) return resolve();
+    clip.addEventListener('seeked', () => resolve(), { once: true });
+    clip.currentTime = time;
+  });
+
+const MAX_CLIP_DRIFT = 0.2; // seconds before the player re-seeks a playing clip
+
+// Keeps clips in step with the playback clock: the current segment's clip plays at the
+// playback rate, every other clip is paused.
+export const syncClips = (
+  visuals: SegmentVisual[],
+  currentIndex: number,
+  elapsed: number,
+  isPlaying: boolean,
+  rate: number
+) => {
+  visuals.forEach((visual, i) => {
+    if (!isClip(visual)) return;
+    if (i !== currentIndex) {
+      if (!visual.paused) visual.pause();
+      return;
+    }
+    const target = clipTimeAt(visual, elapsed);
+    if (Math.abs(visual.currentTime - target) > MAX_CLIP_DRIFT) visual.currentTime = target;
+    visual.playbackRate = rate;
+    if (isPlaying && visual.paused) visual.play().catch(() => { /* autoplay refused; stays on its frame */ });
+    if (!isPlaying && !visual.paused) visual.pause();
+  });
+};
+
+export const releaseVisuals = (visuals: SegmentVisual[]) => {
+  for (const visual of visuals) {
+    if (isClip(visual)) {
+      visual.pause();
+      URL.revokeObjectURL(visual.src);
+      visual.removeAttribute('src');
+    } else {
+      visual.close();
+    }
+  }
+};
@@ -0,0 +1,113 @@
+import { isAbortError } from "./retry";
+
+// What went wrong with a model request, in terms the user can act on. Providers throw these
+// where they know the cause (a blocked prompt, an empty or unparseable answer); anything else
+// is classified from its HTTP status or message once the request has given up.
+
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'empty' | 'malformed' | 'network' | 'unsupported' | 'unknown';
+export type ErrorStage = 'script' | 'image' | 'audio';
+
+export interface GenerationError extends Error {
+  kind: ErrorKind;
+  suggestion: string;
+  stage?: ErrorStage;
+  sceneIndex?: number; // 0-based
+  provider?: string;
+  model?: string;
+  status?: number; // HTTP status, when there was one
+  finishReason?: string; // why the model stopped, e.g. SAFETY or MAX_TOKENS
+  safetyReason?: string; // block reason or the safety categories that tripped
+}
+
+type ErrorDetails = Partial<Omit<GenerationError, 'kind' | 'message' | 'name'>>;
+
+export const ERROR_TITLES: Record<ErrorKind, string> = {
+  auth: 'API key problem',
+  quota: 'Rate limit or quota reached',
+  safety: 'Blocked by the safety filter',
+  empty: 'The model returned nothing',
+  malformed: 'The model returned an unreadable answer',
+  network: 'Network error',
+  unsupported: "The provider can't do this",
+  unknown: 'Generation failed',
+};
+
+const SUGGESTIONS: Record<ErrorKind, string> = {
+  auth: 'Check the API key (or the server URL and key in the Models panel) and try again.',
+  quota: 'Wait a minute and resume, switch to the free rate tier, or pick another model.',
+  safety: 'Reword the narration or image prompt for this scene, then regenerate it.',
+  empty: 'Try again. If it keeps happening, simplify the prompt or pick another model.',
+  malformed: 'Try again, or pick a stronger script model.',
+  network: 'Check your connection (and that local servers are running), then resume.',
+  unsupported: 'Pick another provider in the Models panel, or change the setting it rejects.',
+  unknown: 'Try again. If it keeps failing, copy the run log into a bug report.',
+};
+
+const STAGE_LABELS: Record<ErrorStage, string> = {
+  script: 'Script',
+  image: 'Visuals',
+  audio: 'Voiceover',
+};
+
+const SAFETY_FINISH_REASONS = /SAFETY|PROHIBITED|BLOCKLIST|SPII|RECITATION|CONTENT_FILTER/i;
+
+export const isGenerationError = (error: unknown): error is GenerationError =>
+  error instanceof Error && typeof (error as GenerationError).kind === 'string' && 'suggestion' in error;
+
+export const createGenerationError = (kind: ErrorKind, message: string, details: ErrorDetails = {}): GenerationError => {
+  const error = new Error(message) as GenerationError;
+  error.name = 'GenerationError';
+  error.kind = kind;
+  error.suggestion = SUGGESTIONS[kind];
+  Object.assign(error, details);
+  return error;
+};
+
+// A response without the expected content: blocked if the reasons say so, otherwise empty
+export const createEmptyResponseError = (message: string, finishReason?: string, safetyReason?: string) => {
+  const blocked = !!safetyReason || SAFETY_FINISH_REASONS.test(finishReason || '');
+  return createGenerationError(blocked ? 'safety' : 'empty', message, { finishReason, safetyReason });
+};
+
+const classify = (error: unknown): ErrorKind => {
+  const status = (error as { status?: number })?.status;
+  const code = (error as { code?: string })?.code || '';
+  const message = (error as Error)?.message || '';
+
+  if (status === 401 || status === 403 || /API key|API_KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/content_policy|safety|moderation/i.test(`${code} ${message}`)) return 'safety';
+  if (error instanceof SyntaxError) return 'malformed';
+  if (/Failed to fetch|NetworkError|network|Load failed|ECONNREFUSED/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+// Turns anything thrown during generation into a GenerationError, adding the context the
+// thrower didn't know (stage, scene, model). Details already on the error win.
+export const toGenerationError = (error: unknown, context: ErrorDetails = {}): GenerationError => {
+  if (isGenerationError(error)) {
+    for (const [key, value] of Object.entries(context)) {
+      const target = error as unknown as Record<string, unknown>;
+      if (target[key] === undefined) target[key] = value;
+    }
+    return error;
+  }
+  const message = (error as Error)?.message || String(error);
+  const status = (error as { status?: number })?.status;
+  return createGenerationError(classify(error), message, { ...context, ...(typeof status === 'number' ? { status } : {}) });
+};
+
+// "Scene 3 · Visuals · openai/gpt-image-1"
+export const describeErrorContext = (error: GenerationError) =>
+  [
+    error.sceneIndex !== undefined && `Scene ${error.sceneIndex + 1}`,
+    error.stage && STAGE_LABELS[error.stage],
+    error.provider && `${error.provider}${error.model ? `/${error.model}` : ''}`,
+  ].filter(Boolean).join(' · ');
+
+// One line for places without room for the diagnostics panel
+export const formatError = (error: unknown) => {
+  if (isAbortError(error)) return 'Cancelled.';
+  const generationError = toGenerationError(error);
+  return `${ERROR_TITLES[generationError.kind]}: ${generationError.message} ${generationError.suggestion}`;
+};
@@ -1,158 +1,490 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { AspectRatio, VideoSegment, GeneratedVideo } from "../types";
+import {
+  AspectRatio,
+  AssetJobState,
+  CaptionStyle,
+  AssetKind,
+  GeneratedVideo,
+  GenerationProgress,
+  ProviderSelection,
+  ProviderSettings,
+  StyleBible,
+  StylePreset,
+  VideoScript,
+  VideoSegment,
+  VoiceSettings,
+  VIDEO_SCHEMA_VERSION,
+} from "../types";
+import { TakeDetails, addAudioTake, addImageTake } from "./takes";
+import { DEFAULT_TARGET_DURATION, getScenePlan } from "./scenePlan";
+import { isAbortError, withRetry } from "./retry";
+import { RATE_TIERS, RateTier, createScheduler } from "./scheduler";
+import { DEFAULT_VOICE_SETTINGS, PREVIEW_TEXT, buildTtsPrompt, getVoiceSettings, stripSpeakerLabels } from "./voices";
+import { timeWordsFromPcm } from "./captions";
+import { PCM_MIME_TYPE, base64ToBlob, getPcmDuration, isPcmAudio } from "./mediaUtils";
+import { getDefaultCaptionStyle } from "./captionStyles";
+import { randomizeSegmentMotion } from "./motion";
+import { importAudio } from "./userMedia";
+import { describeStyleBible, getReferenceImages, normalizeStyleBible } from "./styleBible";
+import { isShortForm } from "./aspectRatios";
+import { ErrorStage, createGenerationError, isGenerationError, toGenerationError } from "./errors";
+import { checkModelScript, describeIssue, describeIssuesForModel, hasErrors } from "./scriptValidation";
+import { RunLog } from "./runLog";
+import { createProjectId } from "./projectStore";
+import { getStylePreset, renderImagePrompt, resolveStylePreset } from "./stylePresets";
+import { getChapterCount, normalizeSeo, refreshChapters, wantsChapters } from "./seo";
+import { RenderedPrompt, describePromptVersion, renderPrompt } from "./promptTemplates";
+import { buildScriptPrompt } from "./providers/scriptPrompt";
+import {
+  DEFAULT_PROVIDER_SETTINGS,
+  GeneratedAsset,
+  RawScript,
+  ScriptRequest,
+  getImageGenerator,
+  getScriptGenerator,
+  getSpeechGenerator,
+  getVideoProviders,
+} from "./providers";
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found. Please select a key.");
-  }
-  return new GoogleGenAI({ apiKey });
+export interface GenerationOptions {
+  signal?: AbortSignal; // aborts in-flight requests and any pending retry
+  onCheckpoint?: (video: GeneratedVideo) => void; // called after every finished asset
+  log?: RunLog; // records every request of the run; without one nothing is logged
+}
+
+type ProgressFn = (progress: GenerationProgress) => void;
+type RetryFn = (attempt: number, delayMs: number) => void;
+
+// --- Rate limiting ---
+
+const RATE_TIER_KEY = 'tubegen.rateTier';
+
+export const getRateTier = (): RateTier =>
+  localStorage.getItem(RATE_TIER_KEY) === 'paid' ? 'paid' : 'free';
+
+// One scheduler for the whole app, so every run shares the same per-model budget
+const scheduler = createScheduler(RATE_TIERS[getRateTier()]);
+
+export const setRateTier = (tier: RateTier) => {
+  localStorage.setItem(RATE_TIER_KEY, tier);
+  scheduler.configure(RATE_TIERS[tier]);
 };
 
-// 1. Generate the Script and Visual Plan
-const generateScript = async (topic: string, style: string, isShorts: boolean) => {
-  const ai = getClient();
-  const model = 'gemini-2.5-flash';
-  
-  const format = isShorts ? "YouTube Short (under 60s, fast paced)" : "YouTube Video (engaging, informative)";
-  
-  const prompt = `You are an expert YouTube video creator. Create a script for a ${format} about: "${topic}".
-  Style: ${style}.
-  
-  Return a JSON object containing a list of exactly 5 scenes.
-  Each scene must have:
-  - "narration": The spoken text (keep it punchy and engaging, max 15 words per scene).
-  - "visual_prompt": A highly detailed description to generate a photorealistic, cinematic image for this scene. Avoid text in the image description.
-  `;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          scenes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                narration: { type: Type.STRING },
-                visual_prompt: { type: Type.STRING },
-              },
-              required: ["narration", "visual_prompt"]
-            }
-          }
-        }
+// --- Diagnostics ---
+
+// The exact text sent, and the templates it was rendered from
+interface SentPrompt {
+  source: string;
+  text: string;
+}
+
+interface RequestContext {
+  stage: ErrorStage;
+  sceneIndex?: number;
+  selection: ProviderSelection;
+  prompt?: SentPrompt; // logged with the first attempt
+  log?: RunLog;
+}
+
+const toSentPrompt = (prompt: RenderedPrompt): SentPrompt => ({ source: describePromptVersion(prompt), text: prompt.text });
+
+// Each attempt waits for a scheduler slot, so retries are rate limited too. Attempts are
+// logged, and the final failure comes out as a GenerationError saying where it happened.
+const callModel = async <T>(
+  { stage, sceneIndex, selection, prompt, log }: RequestContext,
+  fn: () => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: RetryFn
+): Promise<T> => {
+  const { providerId: provider, model } = selection;
+  const where = { stage, sceneIndex, provider, model };
+  let attempt = 0;
+
+  const attemptOnce = async () => {
+    attempt++;
+    log?.add({
+      ...where,
+      event: 'request',
+      attempt,
+      ...(prompt && attempt === 1 ? { prompt: prompt.text, promptSource: prompt.source } : {}),
+    });
+    const startedAt = performance.now();
+    try {
+      const result = await fn();
+      log?.add({ ...where, event: 'success', attempt, durationMs: performance.now() - startedAt });
+      return result;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        log?.add({ ...where, event: 'error', attempt, durationMs: performance.now() - startedAt, detail: (error as Error)?.message });
       }
+      throw error;
     }
-  });
+  };
+
+  try {
+    return await withRetry(() => scheduler.run(provider, model, attemptOnce, signal), {
+      signal,
+      onRetry: (retry, delayMs) => {
+        log?.add({ ...where, event: 'retry', attempt, detail: `waiting ${Math.ceil(delayMs / 1000)}s` });
+        onRetry?.(retry, delayMs);
+      },
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toGenerationError(error, where);
+  }
+};
 
-  const json = JSON.parse(response.text || "{}");
-  return json.scenes || [];
+// 1. Generate the Script and Visual Plan
+const requestScript = (request: ScriptRequest, selection: ProviderSelection, signal?: AbortSignal, log?: RunLog): Promise<RawScript> => {
+  const generator = getScriptGenerator(selection);
+  const prompt = buildScriptPrompt(request);
+  return callModel(
+    { stage: 'script', selection, prompt: toSentPrompt(prompt), log },
+    () => generator.generateScript(request, prompt.text, { model: selection.model, signal }),
+    signal
+  );
 };
 
-// 2. Generate Image Asset
-const generateImage = async (prompt: string, aspectRatio: AspectRatio) => {
-  const ai = getClient();
-  // Using Flash Image for speed and free-tier availability where applicable
-  const model = 'gemini-2.5-flash-image'; 
-  
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      parts: [{ text: prompt }]
-    },
-    config: {
-      // Flash Image doesn't support aspect ratio config in the same way as Veo/Imagen sometimes,
-      // but we can try to influence it via prompt or just crop client side.
-      // However, let's try standard image config if supported by the SDK for this model.
-      // Note: gemini-2.5-flash-image is often simpler.
-      // We will rely on client-side cropping (object-fit: cover) for the video player to ensure it fills the screen.
+const MAX_SCRIPT_ATTEMPTS = 2;
+
+// Model output is checked before anyone sees it. An empty, unparseable or invalid answer
+// (wrong scene count, empty narration, over-long scenes, prompts asking for on-screen text)
+// is asked for again once, with the problems spelled out; extra scenes on the last attempt
+// are trimmed. A script that still fails is rejected, so no asset quota is spent on it.
+const generateScript = async (request: ScriptRequest, selection: ProviderSelection, signal?: AbortSignal, log?: RunLog) => {
+  const where = { stage: 'script' as const, provider: selection.providerId, model: selection.model };
+  let correction: string | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt === MAX_SCRIPT_ATTEMPTS;
+    let script: RawScript;
+    try {
+      script = await requestScript({ ...request, correction }, selection, signal, log);
+    } catch (error) {
+      const kind = isGenerationError(error) ? error.kind : null;
+      if (isLastAttempt || (kind !== 'malformed' && kind !== 'empty')) throw error;
+      correction = 'Your previous answer was empty or not valid JSON. Return only the complete JSON object.';
+      continue;
     }
-  });
 
-  // Extract image
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return part.inlineData.data;
+    const { scenes, issues } = checkModelScript(script, request, isLastAttempt);
+    if (!hasErrors(issues)) {
+      return { styleBible: normalizeStyleBible(script.style_bible), seo: normalizeSeo(script.seo, request.topic), scenes };
+    }
+    const problems = issues.filter(issue => issue.severity === 'error').map(describeIssue);
+    log?.add({ ...where, event: 'error', attempt, detail: `Invalid script: ${problems.join(' ')}` });
+    if (isLastAttempt) {
+      const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+      throw createGenerationError('malformed', `The script is unusable: ${problems.slice(0, 3).join(' ')}${more}`, where);
     }
+    correction = describeIssuesForModel(issues);
   }
-  throw new Error("No image generated");
 };
 
-// 3. Generate Audio Asset
-const generateAudio = async (text: string) => {
-  const ai = getClient();
-  const model = 'gemini-2.5-flash-preview-tts';
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' }, // 'Kore' is usually good for narration
-        },
-      },
-    },
+// The style preset's template around the scene, with the style bible and reference notes.
+// `negative` is folded in for backends without a negative prompt of their own.
+const buildImagePrompt = (
+  visualPrompt: string,
+  preset: StylePreset,
+  styleBible: StyleBible | undefined,
+  hasReferences: boolean,
+  negative?: string
+): SentPrompt => {
+  const bible = describeStyleBible(styleBible);
+  const notes = [
+    bible ? renderPrompt('image-consistency', { styleBible: bible }) : null,
+    hasReferences ? renderPrompt('image-references', {}) : null,
+  ].filter((note): note is RenderedPrompt => !!note);
+  const used = [...notes];
+  let text = renderImagePrompt(preset, visualPrompt, notes.map(note => note.text).join('. '));
+  if (negative) {
+    const withNegative = renderPrompt('image-negative', { prompt: text, negative });
+    used.push(withNegative);
+    text = withNegative.text;
+  }
+  return { source: [`style:${preset.id}`, ...used.map(describePromptVersion)].join(' '), text };
+};
+
+// A segment needs new assets when it has none yet or when its text/prompt was edited
+export const needsImage = (segment: VideoSegment) => !segment.imageData || !!segment.imageStale;
+export const needsAudio = (segment: VideoSegment) => !segment.audioData || !!segment.audioStale;
+
+// `segments` must be current: scene 1's image may be sent as a reference
+const fetchSegmentImage = (
+  segment: VideoSegment,
+  sceneIndex: number,
+  segments: VideoSegment[],
+  video: GeneratedVideo,
+  signal?: AbortSignal,
+  onRetry?: RetryFn,
+  log?: RunLog
+) => {
+  const selection = getVideoProviders(video).image;
+  const generator = getImageGenerator(selection);
+  const { model } = selection;
+  const references = generator.supportsReferences ? getReferenceImages(video, segments, sceneIndex) : [];
+  const preset = resolveStylePreset(video);
+  const { negativePrompt } = preset;
+  const prompt = buildImagePrompt(
+    segment.imagePrompt, preset, video.styleBible, references.length > 0,
+    generator.supportsNegativePrompt ? undefined : negativePrompt
+  );
+  return callModel(
+    { stage: 'image', sceneIndex, selection, prompt, log },
+    () => generator.generateImage(prompt.text, video.aspectRatio, references, { model, signal, negativePrompt }),
+    signal,
+    onRetry
+  );
+};
+
+const synthesize = (text: string, voice: VoiceSettings, context: RequestContext, signal?: AbortSignal, onRetry?: RetryFn) => {
+  const generator = getSpeechGenerator(context.selection);
+  const { model } = context.selection;
+  // Backends that take instructions get the speech prompt; the others speak the text as is
+  const prompt = generator.acceptsInstructions ? toSentPrompt(buildTtsPrompt(text, voice)) : { source: 'narration', text };
+  return callModel({ ...context, prompt }, () => generator.generateSpeech(prompt.text, voice, { model, signal }), signal, onRetry);
+};
+
+const fetchSegmentAudio = (
+  segment: VideoSegment,
+  sceneIndex: number,
+  video: GeneratedVideo,
+  signal?: AbortSignal,
+  onRetry?: RetryFn,
+  log?: RunLog
+) =>
+  synthesize(segment.text, getVoiceSettings(video), { stage: 'audio', sceneIndex, selection: getVideoProviders(video).tts, log }, signal, onRetry);
+
+// New voiceover takes carry word timings for the karaoke captions, worked out once here.
+// Raw PCM is analysed directly; other formats (e.g. Piper's WAV) are decoded first.
+const describeNarration = async (speech: GeneratedAsset, text: string, video: GeneratedVideo): Promise<TakeDetails> => {
+  const captionText = stripSpeakerLabels(text, video.voice);
+  if (isPcmAudio(speech.mimeType)) {
+    return {
+      mimeType: PCM_MIME_TYPE,
+      origin: 'generated',
+      duration: getPcmDuration(speech.data),
+      wordTimings: timeWordsFromPcm(speech.data, captionText),
+    };
+  }
+  const { duration, wordTimings } = await importAudio(base64ToBlob(speech.data, speech.mimeType), captionText);
+  return { mimeType: speech.mimeType, origin: 'generated', duration, wordTimings };
+};
+
+const addGeneratedImageTake = (segment: VideoSegment, image: GeneratedAsset, prompt: string) =>
+  addImageTake(segment, image.data, prompt, { mimeType: image.mimeType, origin: 'generated' });
+
+// Per-segment regeneration: each call adds a new take and makes it active,
+// keeping the previous ones as alternates
+// Pass the video as currently edited, so scene 1's latest image is the one used as a reference
+export const regenerateSegmentImage = async (segment: VideoSegment, video: GeneratedVideo, signal?: AbortSignal) => {
+  const sceneIndex = video.segments.findIndex(s => s.id === segment.id);
+  const image = await fetchSegmentImage(segment, sceneIndex, video.segments, video, signal);
+  return addGeneratedImageTake(segment, image, segment.imagePrompt);
+};
+
+export const regenerateSegmentAudio = async (segment: VideoSegment, video: GeneratedVideo, signal?: AbortSignal) => {
+  const sceneIndex = video.segments.findIndex(s => s.id === segment.id);
+  const speech = await fetchSegmentAudio(segment, sceneIndex, video, signal);
+  return addAudioTake(segment, speech.data, segment.text, await describeNarration(speech, segment.text, video));
+};
+
+// Short sample clip for the voice picker. Cached, so auditioning voices doesn't burn TTS quota twice.
+const previewCache = new Map<string, Promise<GeneratedAsset>>();
+
+export const previewVoice = (voice: VoiceSettings, selection: ProviderSelection = DEFAULT_PROVIDER_SETTINGS.tts) => {
+  const single: VoiceSettings = { ...voice, mode: 'single' };
+  const key = `${selection.providerId}|${selection.model}|${single.voiceName}|${single.pace}|${single.tone}`;
+  if (!previewCache.has(key)) {
+    const request = synthesize(PREVIEW_TEXT, single, { stage: 'audio', selection });
+    request.catch(() => previewCache.delete(key));
+    previewCache.set(key, request);
+  }
+  return previewCache.get(key)!;
+};
+
+// Fills in every asset that is missing or marked stale. Used for fresh videos (all assets
+// missing), storyboard edits, and resuming a failed or cancelled run from its last checkpoint.
+// Jobs run in parallel through the scheduler; results are written back by scene index so
+// the segment order never depends on which request finishes first.
+export const generateMissingAssets = async (
+  video: GeneratedVideo,
+  onProgress: ProgressFn,
+  { signal, onCheckpoint, log }: GenerationOptions = {}
+): Promise<GeneratedVideo> => {
+  const segments = [...video.segments];
+  const sceneCount = segments.length;
+
+  const jobs: { sceneIndex: number; kind: AssetKind }[] = [];
+  segments.forEach((segment, sceneIndex) => {
+    if (needsImage(segment)) jobs.push({ sceneIndex, kind: 'image' });
+    if (needsAudio(segment)) jobs.push({ sceneIndex, kind: 'audio' });
   });
 
-  const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!audioData) throw new Error("No audio generated");
-  return audioData;
+  let completed = 0;
+  let firstError: unknown = null;
+
+  const report = (sceneIndex: number, kind: AssetKind, state: AssetJobState, message: string) =>
+    onProgress({ stage: 'assets', message, completed, total: jobs.length, job: { sceneIndex, kind, state } });
+
+  const label = (sceneIndex: number, kind: AssetKind) =>
+    `Scene ${sceneIndex + 1}/${sceneCount}: ${kind === 'image' ? 'Visuals' : 'Voiceover'}`;
+
+  jobs.forEach(({ sceneIndex, kind }) => report(sceneIndex, kind, 'queued', `${label(sceneIndex, kind)} queued`));
+
+  const runJob = async ({ sceneIndex, kind }: { sceneIndex: number; kind: AssetKind }) => {
+    // After the first failure, queued jobs are skipped; in-flight ones still finish and checkpoint
+    if (firstError) return;
+    const onRetry: RetryFn = (attempt, delayMs) =>
+      report(sceneIndex, kind, 'retrying',
+        `${label(sceneIndex, kind)}: service busy, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`);
+
+    try {
+      report(sceneIndex, kind, 'running', `Generating ${label(sceneIndex, kind)}...`);
+      const source = segments[sceneIndex];
+      if (kind === 'image') {
+        const image = await fetchSegmentImage(source, sceneIndex, segments, video, signal, onRetry, log);
+        segments[sceneIndex] = addGeneratedImageTake(segments[sceneIndex], image, source.imagePrompt);
+      } else {
+        const speech = await fetchSegmentAudio(source, sceneIndex, video, signal, onRetry, log);
+        const details = await describeNarration(speech, source.text, video);
+        segments[sceneIndex] = addAudioTake(segments[sceneIndex], speech.data, source.text, details);
+      }
+      completed++;
+      report(sceneIndex, kind, 'done', `${label(sceneIndex, kind)} done`);
+      onCheckpoint?.({ ...video, segments: [...segments] });
+    } catch (error) {
+      // Decoding a voiceover can fail after the request itself succeeded
+      if (!isAbortError(error)) error = toGenerationError(error, { stage: kind, sceneIndex });
+      firstError = firstError || error;
+      report(sceneIndex, kind, 'failed', `${label(sceneIndex, kind)} failed`);
+    }
+  };
+
+  // When scene 1's image is the reference for the rest, it has to exist before they start.
+  // Voiceovers don't wait.
+  const anchorJob = video.useFirstImageAsReference
+    ? jobs.find(job => job.kind === 'image' && job.sceneIndex === 0)
+    : undefined;
+  const laterImageJobs = jobs.filter(job => job.kind === 'image' && job !== anchorJob);
+  await Promise.all([
+    ...jobs.filter(job => job.kind === 'audio').map(runJob),
+    (async () => {
+      if (anchorJob) await runJob(anchorJob);
+      await Promise.all(laterImageJobs.map(runJob));
+    })(),
+  ]);
+  if (firstError) throw firstError;
+
+  // Chapter start times depend on the voiceover lengths, which are only known now
+  return refreshChapters({ ...video, segments });
 };
 
-// Main Workflow
-export const generateVideoWorkflow = async (
+// Counts finished assets, e.g. to show how far a checkpoint got
+export const countAssets = (video: GeneratedVideo) => ({
+  done: video.segments.reduce((acc, s) => acc + (needsImage(s) ? 0 : 1) + (needsAudio(s) ? 0 : 1), 0),
+  total: video.segments.length * 2,
+});
+
+// Phase 1: Plan the script. Cheap (one text call) so it can be re-run until the script is right.
+export const planVideoScript = async (
   topic: string,
   style: string,
   aspectRatio: AspectRatio,
-  onProgress: (msg: string) => void
-): Promise<GeneratedVideo> => {
-  
-  onProgress("Planning video script & visuals...");
-  const scenes = await generateScript(topic, style, aspectRatio === AspectRatio.PORTRAIT);
-  
-  const segments: VideoSegment[] = [];
-  
-  // Process scenes sequentially to avoid rate limits on free tier, 
-  // or parallel if we feel brave. Sequential is safer for "No Money" (Free Tier limits).
-  let i = 0;
-  for (const scene of scenes) {
-    i++;
-    onProgress(`Generating Scene ${i}/${scenes.length}: Visuals...`);
-    
-    // Add style keywords to image prompt
-    const enhancedPrompt = `${scene.visual_prompt}, ${style} style, 8k, photorealistic, cinematic lighting, no text`;
-    
-    // Generate Image
-    const imageData = await generateImage(enhancedPrompt, aspectRatio);
-    
-    onProgress(`Generating Scene ${i}/${scenes.length}: Voiceover...`);
-    // Generate Audio
-    const audioData = await generateAudio(scene.narration);
-    
-    // Estimate duration (rough guess if we can't decode yet, but player will handle actual duration)
-    // We'll update duration in the player.
-    segments.push({
-      id: `seg-${Date.now()}-${i}`,
-      text: scene.narration,
-      imagePrompt: scene.visual_prompt,
-      imageData,
-      audioData,
-      duration: 5, // Default, will be updated by player based on audio length
-    });
-  }
-
+  targetDuration: number = DEFAULT_TARGET_DURATION,
+  voice: VoiceSettings = DEFAULT_VOICE_SETTINGS,
+  captionStyle: CaptionStyle = getDefaultCaptionStyle(aspectRatio),
+  providers: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  signal?: AbortSignal,
+  log?: RunLog
+): Promise<VideoScript> => {
+  const isShorts = isShortForm(aspectRatio);
+  const plan = getScenePlan(targetDuration, isShorts);
+  const stylePreset = getStylePreset(style);
+  const chapterCount = wantsChapters(aspectRatio, targetDuration) ? getChapterCount(targetDuration) : undefined;
+  const { styleBible, seo, scenes } = await generateScript(
+    { topic, style: stylePreset.name, tone: stylePreset.tone, isShorts, plan, voice, chapterCount },
+    providers.script,
+    signal,
+    log
+  );
+  const base = createProjectId();
   return {
-    id: Date.now().toString(),
     topic,
-    style,
+    style: stylePreset.id,
+    stylePreset,
     aspectRatio,
-    segments,
+    targetDuration,
+    voice,
+    captionStyle,
+    providers,
+    styleBible,
+    referenceImages: [],
+    useFirstImageAsReference: true,
+    seo,
+    scenes: scenes.map((scene, i) => ({
+      id: `scene-${base}-${i + 1}`,
+      narration: scene.narration,
+      visualPrompt: scene.visualPrompt,
+      chapter: scene.chapter,
+    })),
+  };
+};
+
+// Turns an approved script into a video whose segments have no assets yet
+export const createDraftVideo = (script: VideoScript): GeneratedVideo => {
+  const id = createProjectId();
+  return {
+    id,
+    schemaVersion: VIDEO_SCHEMA_VERSION,
+    topic: script.topic,
+    style: script.style,
+    stylePreset: script.stylePreset,
+    aspectRatio: script.aspectRatio,
+    targetDuration: script.targetDuration,
+    voice: script.voice,
+    captionStyle: script.captionStyle,
+    providers: script.providers,
+    styleBible: script.styleBible,
+    referenceImages: script.referenceImages,
+    useFirstImageAsReference: script.useFirstImageAsReference,
+    seo: script.seo,
+    // Each scene starts with a camera move and transition picked to suit the style
+    segments: script.scenes.map((scene, i) => randomizeSegmentMotion({
+      id: `seg-${id}-${i + 1}`,
+      text: scene.narration,
+      imagePrompt: scene.visualPrompt,
+      chapter: scene.chapter,
+      imageData: '',
+      audioData: '',
+      duration: 5, // Default, will be updated by player based on audio length
+      imageTakes: [],
+      audioTakes: [],
+    }, script.stylePreset.motion)),
     timestamp: Date.now(),
   };
-};
\ No newline at end of file
+};
+
+// Phase 2: Spend image/TTS quota on an approved script
+export const generateVideoAssets = (
+  script: VideoScript,
+  onProgress: ProgressFn,
+  options: GenerationOptions = {}
+): Promise<GeneratedVideo> => generateMissingAssets(createDraftVideo(script), onProgress, options);
+
+// Main Workflow: both phases back to back, without a review step (for automation)
+export const generateVideoWorkflow = async (
+  topic: string,
+  style: string,
+  aspectRatio: AspectRatio,
+  onProgress: ProgressFn,
+  targetDuration: number = DEFAULT_TARGET_DURATION,
+  voice: VoiceSettings = DEFAULT_VOICE_SETTINGS,
+  captionStyle: CaptionStyle = getDefaultCaptionStyle(aspectRatio),
+  providers: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: GenerationOptions = {}
+): Promise<GeneratedVideo> => {
+  onProgress({ stage: 'planning', message: "Planning video script & visuals...", completed: 0, total: 0 });
+  const script = await planVideoScript(topic, style, aspectRatio, targetDuration, voice, captionStyle, providers, options.signal, options.log);
+  return generateVideoAssets(script, onProgress, options);
+};
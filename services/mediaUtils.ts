@@ -0,0 +1,196 @@
+import { GeneratedVideo, VideoSegment } from "../types";
+import { SegmentVisual, loadClip } from "./clips";
+
+// Gemini TTS returns raw 16-bit PCM, mono, at 24kHz
+export const TTS_SAMPLE_RATE = 24000;
+
+// Media types. Raw TTS audio is stored as PCM; uploads and recordings keep their own type.
+export const PCM_MIME_TYPE = 'audio/pcm';
+export const DEFAULT_IMAGE_MIME_TYPE = 'image/jpeg';
+
+// Gemini reports TTS output as audio/L16;codec=pcm;rate=24000
+export const isPcmAudio = (mimeType?: string) =>
+  !mimeType || mimeType.startsWith(PCM_MIME_TYPE) || mimeType.startsWith('audio/L16');
+
+export const isVideoClip = (mimeType?: string) => !!mimeType && mimeType.startsWith('video/');
+
+export const getImageMimeType = (segment: VideoSegment) => segment.imageMimeType || DEFAULT_IMAGE_MIME_TYPE;
+export const getAudioMimeType = (segment: VideoSegment) => segment.audioMimeType || PCM_MIME_TYPE;
+
+// Helper to decode base64 string to Uint8Array
+export const decodeBase64 = (base64: string) => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Helper to decode raw PCM data (16-bit, 24kHz, mono) into AudioBuffer
+export const decodePCM = (
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number = TTS_SAMPLE_RATE,
+  numChannels: number = 1
+): AudioBuffer => {
+  // Ensure data length is even for Int16Array
+  if (data.byteLength % 2 !== 0) {
+    data = data.subarray(0, data.byteLength - 1);
+  }
+
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      // Convert PCM 16-bit to float [-1.0, 1.0]
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
+
+// Duration of base64 PCM audio without decoding it (16-bit mono => 2 bytes per sample)
+export const getPcmDuration = (base64: string, sampleRate: number = TTS_SAMPLE_RATE) => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const byteLength = Math.max((base64.length * 3) / 4 - padding, 0);
+  return byteLength / 2 / sampleRate;
+};
+
+// Decodes a compressed audio file (MP3, WAV, OGG...) stored as base64
+export const decodeAudioFile = (base64: string, ctx: BaseAudioContext) =>
+  ctx.decodeAudioData(decodeBase64(base64).buffer);
+
+// PCM length can be read off the byte count; other formats record their length when added
+export const getSegmentAudioDuration = (segment: VideoSegment) =>
+  isPcmAudio(segment.audioMimeType) ? getPcmDuration(segment.audioData) : segment.duration;
+
+export interface LoadedAssets {
+  audioBuffers: AudioBuffer[];
+  images: SegmentVisual[]; // an ImageBitmap, or a <video> for clip segments
+  music: AudioBuffer | null;
+}
+
+// Decodes every segment's audio and image. Broken assets are replaced with
+// silent/blank placeholders so one bad segment never blocks the whole video.
+export const loadVideoAssets = async (
+  video: GeneratedVideo,
+  ctx: BaseAudioContext,
+  onProgress?: (percent: number) => void
+): Promise<LoadedAssets> => {
+  const audioBuffers: AudioBuffer[] = [];
+  const images: SegmentVisual[] = [];
+
+  let loadedCount = 0;
+  const total = video.segments.length * 2;
+
+  const updateProgress = () => {
+    loadedCount++;
+    onProgress?.(Math.round((loadedCount / total) * 100));
+  };
+
+  for (const segment of video.segments) {
+    // 1. Decode Audio (raw TTS PCM, or an uploaded/recorded file)
+    try {
+      audioBuffers.push(isPcmAudio(segment.audioMimeType)
+        ? decodePCM(decodeBase64(segment.audioData), ctx, TTS_SAMPLE_RATE, 1)
+        : await decodeAudioFile(segment.audioData, ctx));
+    } catch (err) {
+      console.error("Error decoding audio for segment", segment.id, err);
+      // Fallback to silent buffer to prevent crash
+      audioBuffers.push(ctx.createBuffer(1, TTS_SAMPLE_RATE, TTS_SAMPLE_RATE));
+    }
+    updateProgress();
+
+    // 2. Load Image or clip
+    try {
+      const blob = base64ToBlob(segment.imageData, getImageMimeType(segment));
+      images.push(isVideoClip(segment.imageMimeType) ? await loadClip(blob) : await createImageBitmap(blob));
+    } catch (err) {
+      console.error("Error loading visual for segment", segment.id, err);
+      // Fallback placeholder (1x1 transparent)
+      images.push(await createImageBitmap(new ImageData(1, 1)));
+    }
+    updateProgress();
+  }
+
+  // 3. Background music. A file that won't decode just means no music bed.
+  let music: AudioBuffer | null = null;
+  if (video.music) {
+    try {
+      music = await decodeAudioFile(video.music.data, ctx);
+    } catch (err) {
+      console.error("Error decoding background music", err);
+    }
+  }
+
+  return { audioBuffers, images, music };
+};
+
+// Triggers a browser download for an in-memory file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Inverse of decodeBase64. Chunked so large images don't blow the call stack.
+export const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+export const blobToBase64 = async (blob: Blob) => encodeBase64(new Uint8Array(await blob.arrayBuffer()));
+
+export const base64ToBlob = (base64: string, mimeType: string) => new Blob([decodeBase64(base64)], { type: mimeType });
+
+// Plays a base64 audio clip once (e.g. to audition a take). Returns a function that stops it.
+export const playAudioPreview = (base64: string, mimeType: string = PCM_MIME_TYPE) => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  let source: AudioBufferSourceNode | null = null;
+  let stopped = false;
+
+  const start = (buffer: AudioBuffer) => {
+    if (stopped) return;
+    source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => ctx.close();
+    source.start();
+  };
+
+  if (isPcmAudio(mimeType)) {
+    start(decodePCM(decodeBase64(base64), ctx));
+  } else {
+    decodeAudioFile(base64, ctx).then(start).catch(err => {
+      if (stopped) return;
+      console.error("Could not play audio preview", err);
+      ctx.close();
+    });
+  }
+
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (source) {
+      try { source.stop(); } catch (e) {}
+    } else {
+      ctx.close(); // still decoding
+    }
+  };
+};
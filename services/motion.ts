@@ -0,0 +1,74 @@
+import { MotionPreset, SegmentMotion, SegmentTransition, TransitionType, VideoSegment } from "../types";
+
+export const MOTION_PRESETS: { id: MotionPreset; label: string }[] = [
+  { id: 'zoom-in', label: 'Zoom in' },
+  { id: 'zoom-out', label: 'Zoom out' },
+  { id: 'pan-left', label: 'Pan left' },
+  { id: 'pan-right', label: 'Pan right' },
+  { id: 'pan-up', label: 'Pan up' },
+  { id: 'pan-down', label: 'Pan down' },
+  { id: 'static', label: 'Static' },
+];
+
+export const TRANSITIONS: { id: TransitionType; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'slide', label: 'Slide' },
+  { id: 'wipe', label: 'Wipe' },
+  { id: 'zoom-through', label: 'Zoom through' },
+  { id: 'fade-to-black', label: 'Fade to black' },
+];
+
+export const DEFAULT_MOTION: SegmentMotion = { preset: 'zoom-in', focusX: 0.5, focusY: 0.5 };
+export const DEFAULT_TRANSITION: SegmentTransition = { type: 'cut', duration: 0 };
+
+const MOTION_ZOOM = 0.15; // 15% zoom, as the original Ken Burns effect
+
+// What "randomize" picks from for each video style
+const STYLE_MOTION: Record<string, { motions: MotionPreset[]; transitions: TransitionType[]; duration: number }> = {
+  documentary: { motions: ['zoom-in', 'zoom-out', 'pan-left', 'pan-right'], transitions: ['crossfade'], duration: 0.8 },
+  hype: { motions: ['zoom-in', 'zoom-out', 'pan-up', 'pan-down'], transitions: ['slide', 'zoom-through', 'wipe', 'cut'], duration: 0.3 },
+  cinematic: { motions: ['zoom-in', 'pan-left', 'pan-right'], transitions: ['crossfade', 'fade-to-black'], duration: 1 },
+  minimalist: { motions: ['static', 'zoom-in'], transitions: ['cut', 'crossfade'], duration: 0.5 },
+};
+
+export const MOTION_STYLES = Object.keys(STYLE_MOTION);
+
+const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+// A random camera move and entry transition that fit the style
+export const randomizeSegmentMotion = (segment: VideoSegment, style: string): VideoSegment => {
+  const pool = STYLE_MOTION[style] || STYLE_MOTION.documentary;
+  return {
+    ...segment,
+    motion: { ...(segment.motion || DEFAULT_MOTION), preset: pick(pool.motions) },
+    transition: { type: pick(pool.transitions), duration: pool.duration },
+  };
+};
+
+export const getSegmentMotion = (segment: VideoSegment) => segment.motion || DEFAULT_MOTION;
+export const getSegmentTransition = (segment: VideoSegment) => segment.transition || DEFAULT_TRANSITION;
+
+// Scale and the fixed point (in canvas pixels) to scale around. Scaling a cover-fitted
+// image by >= 1 around any point inside the frame never exposes its edges, so pans are
+// just a moving anchor.
+export const getMotionTransform = (motion: SegmentMotion, progress: number, width: number, height: number) => {
+  const fx = motion.focusX * width;
+  const fy = motion.focusY * height;
+  switch (motion.preset) {
+    case 'zoom-in':
+      return { scale: 1 + progress * MOTION_ZOOM, x: fx, y: fy };
+    case 'zoom-out':
+      return { scale: 1 + (1 - progress) * MOTION_ZOOM, x: fx, y: fy };
+    case 'pan-left':
+      return { scale: 1 + MOTION_ZOOM, x: (1 - progress) * width, y: fy };
+    case 'pan-right':
+      return { scale: 1 + MOTION_ZOOM, x: progress * width, y: fy };
+    case 'pan-up':
+      return { scale: 1 + MOTION_ZOOM, x: fx, y: (1 - progress) * height };
+    case 'pan-down':
+      return { scale: 1 + MOTION_ZOOM, x: fx, y: progress * height };
+    default:
+      return { scale: 1, x: fx, y: fy };
+  }
+};
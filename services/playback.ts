@@ -0,0 +1,106 @@
+import { GeneratedVideo } from "../types";
+import { LoadedAssets } from "./mediaUtils";
+import { Timeline, buildTimeline, locateTime } from "./videoRenderer";
+import { scheduleMix, stopSources } from "./audioMix";
+
+// Playback clock for the live player. Position is derived from AudioContext.currentTime,
+// the same clock the audio hardware runs on, so the canvas can never drift from the sound.
+// Every play/seek/rate change reschedules the whole mix from the new position.
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export interface PlaybackEngine {
+  timeline: Timeline;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  setRate: (rate: number) => void;
+  getRate: () => number;
+  // Current position in seconds; also stops the engine once it reaches the end
+  update: () => number;
+  isPlaying: () => boolean;
+  nextSegment: () => void;
+  previousSegment: () => void;
+  dispose: () => void;
+}
+
+// Going "back" within this many seconds of a segment's start jumps to the previous segment
+const RESTART_THRESHOLD = 1.5;
+
+export const createPlaybackEngine = (
+  ctx: AudioContext,
+  video: GeneratedVideo,
+  assets: LoadedAssets
+): PlaybackEngine => {
+  const timeline = buildTimeline(assets.audioBuffers.map(b => b.duration));
+
+  let offset = 0; // timeline position when the clock was last anchored
+  let anchoredAt = 0; // ctx.currentTime at that moment
+  let rate = 1;
+  let playing = false;
+  let sources: AudioScheduledSourceNode[] = [];
+
+  const clamp = (time: number) => Math.min(Math.max(time, 0), timeline.total);
+
+  const position = () =>
+    playing ? clamp(offset + (ctx.currentTime - anchoredAt) * rate) : offset;
+
+  const start = () => {
+    anchoredAt = ctx.currentTime;
+    sources = scheduleMix(ctx, ctx.destination, video, assets.audioBuffers, assets.music, timeline, anchoredAt, offset, rate);
+    playing = true;
+  };
+
+  const halt = () => {
+    stopSources(sources);
+    sources = [];
+    playing = false;
+  };
+
+  // Re-anchors the clock at the current position, e.g. before changing rate or jumping
+  const reschedule = (changes: () => void) => {
+    const wasPlaying = playing;
+    offset = position();
+    if (wasPlaying) halt();
+    changes();
+    if (wasPlaying) start();
+  };
+
+  const seek = (time: number) => reschedule(() => { offset = clamp(time); });
+
+  return {
+    timeline,
+    play: async () => {
+      if (playing) return;
+      if (ctx.state === 'suspended') await ctx.resume();
+      if (offset >= timeline.total) offset = 0;
+      start();
+    },
+    pause: () => {
+      if (!playing) return;
+      offset = position();
+      halt();
+    },
+    seek,
+    setRate: (newRate) => reschedule(() => { rate = newRate; }),
+    getRate: () => rate,
+    update: () => {
+      const time = position();
+      if (playing && time >= timeline.total) {
+        halt();
+        offset = timeline.total;
+      }
+      return time;
+    },
+    isPlaying: () => playing,
+    nextSegment: () => {
+      const { index } = locateTime(timeline, position());
+      if (index + 1 < timeline.starts.length) seek(timeline.starts[index + 1]);
+    },
+    previousSegment: () => {
+      const { index, elapsed } = locateTime(timeline, position());
+      seek(elapsed > RESTART_THRESHOLD || index === 0 ? timeline.starts[index] : timeline.starts[index - 1]);
+    },
+    dispose: halt,
+  };
+};
@@ -0,0 +1,234 @@
+import { AspectRatio, AssetTake, GeneratedVideo, MusicTrack, ReferenceImage, VideoSegment, VIDEO_SCHEMA_VERSION } from "../types";
+import { DEFAULT_IMAGE_MIME_TYPE, PCM_MIME_TYPE, TTS_SAMPLE_RATE, decodeBase64, encodeBase64, isPcmAudio } from "./mediaUtils";
+import { createProjectId, migrateProject } from "./projectStore";
+import { ZipEntry, createZip, readZip } from "./zip";
+import { WavInfo, decodeWav, encodeWav } from "./wav";
+
+// Portable project files: a ZIP with a project.json manifest (the GeneratedVideo with every
+// base64 field swapped for a path) and each take, reference image and music track as a real
+// file. Raw TTS PCM is written as WAV so the voiceovers play anywhere, and turned back into
+// PCM on import.
+
+const BUNDLE_FORMAT = 'tubegen-project';
+const MANIFEST_FILE = 'project.json';
+
+// Bump when the bundle layout changes (the project inside has its own schemaVersion)
+export const BUNDLE_VERSION = 1;
+
+type BundledTake = Omit<AssetTake, 'data'> & { file: string };
+
+type BundledSegment = Omit<VideoSegment, 'imageData' | 'audioData' | 'imageTakes' | 'audioTakes'> & {
+  imageTakes: BundledTake[];
+  audioTakes: BundledTake[];
+};
+
+type BundledMusic = Omit<MusicTrack, 'data'> & { file: string };
+
+type BundledReference = Omit<ReferenceImage, 'data'> & { file: string };
+
+interface BundledProject extends Omit<GeneratedVideo, 'segments' | 'music' | 'referenceImages'> {
+  segments: BundledSegment[];
+  music?: BundledMusic;
+  referenceImages?: BundledReference[];
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  exportedAt: string;
+  project: BundledProject;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+};
+
+const withoutData = <T extends { data: string }>({ data, ...rest }: T) => rest;
+const withoutFile = <T extends { file: string }>({ file, ...rest }: T) => rest;
+
+const getExtension = (mimeType: string) =>
+  isPcmAudio(mimeType) ? 'wav' : EXTENSIONS[mimeType.split(';')[0].trim()] || 'bin';
+
+// --- Export ---
+
+export const exportProjectBundle = (video: GeneratedVideo): Blob => {
+  const files: ZipEntry[] = [];
+
+  const addFile = (path: string, base64: string, mimeType: string) => {
+    const bytes = decodeBase64(base64);
+    const file = `${path}.${getExtension(mimeType)}`;
+    files.push({ name: file, data: isPcmAudio(mimeType) ? encodeWav(bytes, TTS_SAMPLE_RATE) : bytes });
+    return file;
+  };
+
+  // Older takes have no type; the manifest always records one
+  const bundleTakes = (takes: AssetTake[], folder: string, kind: string, defaultMimeType: string) =>
+    takes.map(({ data, ...take }, i): BundledTake => {
+      const mimeType = take.mimeType || defaultMimeType;
+      return { ...take, mimeType, file: addFile(`${folder}/${kind}-${i + 1}`, data, mimeType) };
+    });
+
+  const project: BundledProject = {
+    ...video,
+    music: video.music && { ...withoutData(video.music), file: addFile('media/music', video.music.data, video.music.mimeType) },
+    referenceImages: video.referenceImages?.map(({ data, ...ref }, i) => ({
+      ...ref,
+      file: addFile(`media/reference-${i + 1}`, data, ref.mimeType),
+    })),
+    segments: video.segments.map(({ imageData, audioData, imageTakes, audioTakes, ...segment }, i) => {
+      const folder = `media/scene-${String(i + 1).padStart(2, '0')}`;
+      return {
+        ...segment,
+        imageTakes: bundleTakes(imageTakes, folder, 'image', DEFAULT_IMAGE_MIME_TYPE),
+        audioTakes: bundleTakes(audioTakes, folder, 'audio', PCM_MIME_TYPE),
+      };
+    }),
+  };
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createZip([{ name: MANIFEST_FILE, data: json }, ...files]);
+};
+
+// --- Import ---
+
+const fail = (message: string): never => {
+  throw new Error(`Can't import this project: ${message}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const validateTake = (take: unknown, where: string) => {
+  if (!isObject(take) || typeof take.id !== 'string' || typeof take.file !== 'string' || !take.file) {
+    return fail(`${where} has a malformed take.`);
+  }
+  if (!isOptionalString(take.mimeType)) fail(`${where} has a take with an invalid file type.`);
+};
+
+// Music and reference images: a file plus the type needed to read it
+const validateMedia = (media: unknown, what: string) => {
+  if (!isObject(media) || typeof media.file !== 'string' || !media.file || typeof media.mimeType !== 'string') {
+    fail(`${what} is malformed.`);
+  }
+};
+
+// Checks the fields the app can't run without; optional settings fall back to defaults
+const validateManifest = (value: unknown): BundleManifest => {
+  if (!isObject(value) || value.format !== BUNDLE_FORMAT) return fail("it isn't a TubeGen project bundle.");
+  if (typeof value.bundleVersion !== 'number') return fail('the bundle has no version.');
+  if (value.bundleVersion > BUNDLE_VERSION) {
+    return fail(`it was exported by a newer version of TubeGen (bundle v${value.bundleVersion}). Update the app to open it.`);
+  }
+
+  const { project } = value;
+  if (!isObject(project)) return fail('the manifest has no project.');
+  const schemaVersion = project.schemaVersion ?? 0;
+  if (typeof schemaVersion !== 'number') return fail('the project has no valid schema version.');
+  if (schemaVersion > VIDEO_SCHEMA_VERSION) {
+    return fail(`it was saved by a newer version of TubeGen (schema v${schemaVersion}). Update the app to open it.`);
+  }
+  if (typeof project.topic !== 'string' || typeof project.style !== 'string') return fail('the project has no topic or style.');
+  if (!Object.values<unknown>(AspectRatio).includes(project.aspectRatio)) return fail(`unknown aspect ratio "${project.aspectRatio}".`);
+  if (!Array.isArray(project.segments) || project.segments.length === 0) return fail('the project has no scenes.');
+
+  project.segments.forEach((segment: unknown, i) => {
+    const where = `scene ${i + 1}`;
+    if (!isObject(segment) || typeof segment.id !== 'string') return fail(`${where} is malformed.`);
+    if (typeof segment.text !== 'string' || typeof segment.imagePrompt !== 'string') fail(`${where} has no narration or prompt.`);
+    if (!Array.isArray(segment.imageTakes) || !Array.isArray(segment.audioTakes)) return fail(`${where} has no takes.`);
+    if (!isOptionalString(segment.activeImageTakeId) || !isOptionalString(segment.activeAudioTakeId)) fail(`${where} is malformed.`);
+    [...segment.imageTakes, ...segment.audioTakes].forEach(take => validateTake(take, where));
+  });
+
+  if (project.music !== undefined) validateMedia(project.music, 'the music track');
+  if (project.referenceImages !== undefined) {
+    if (!Array.isArray(project.referenceImages)) return fail('the reference images are malformed.');
+    project.referenceImages.forEach((ref: unknown, i) => validateMedia(ref, `reference image ${i + 1}`));
+  }
+  return value as unknown as BundleManifest;
+};
+
+export const importProjectBundle = async (file: File): Promise<GeneratedVideo> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(await file.arrayBuffer());
+  } catch (error) {
+    return fail(`"${file.name}" isn't a readable bundle (${(error as Error).message})`);
+  }
+
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) fail(`"${file.name}" has no ${MANIFEST_FILE}.`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    fail(`${MANIFEST_FILE} is not valid JSON.`);
+  }
+  const { project } = validateManifest(parsed);
+
+  // WAVs that stand in for raw PCM must be in the format the player decodes
+  const readFile = (path: string, mimeType: string) => {
+    const bytes = files.get(path);
+    if (!bytes || bytes.length === 0) return fail(`${path} is missing or empty.`);
+    if (!isPcmAudio(mimeType)) return encodeBase64(bytes);
+    let wav: WavInfo;
+    try {
+      wav = decodeWav(bytes);
+    } catch (error) {
+      return fail(`${path}: ${(error as Error).message}`);
+    }
+    if (wav.sampleRate !== TTS_SAMPLE_RATE || wav.channels !== 1 || wav.bitsPerSample !== 16) {
+      return fail(`${path} must be 16-bit mono ${TTS_SAMPLE_RATE} Hz.`);
+    }
+    return encodeBase64(wav.pcm);
+  };
+
+  const unbundleTakes = (takes: BundledTake[], defaultMimeType: string): AssetTake[] =>
+    takes.map(({ file: path, ...take }) => ({ ...take, data: readFile(path, take.mimeType || defaultMimeType) }));
+
+  const segments: VideoSegment[] = project.segments.map(({ imageTakes, audioTakes, ...segment }) => {
+    const images = unbundleTakes(imageTakes, DEFAULT_IMAGE_MIME_TYPE);
+    const audios = unbundleTakes(audioTakes, PCM_MIME_TYPE);
+    return {
+      ...segment,
+      imageTakes: images,
+      audioTakes: audios,
+      imageData: images.find(t => t.id === segment.activeImageTakeId)?.data || '',
+      audioData: audios.find(t => t.id === segment.activeAudioTakeId)?.data || '',
+    };
+  });
+
+  const music = project.music && { ...withoutFile(project.music), data: readFile(project.music.file, project.music.mimeType) };
+  const referenceImages = project.referenceImages?.map(({ file: path, ...ref }) => ({ ...ref, data: readFile(path, ref.mimeType) }));
+
+  // A fresh id, so importing a project twice (or back into the library it came from)
+  // never overwrites the existing copy
+  return migrateProject({
+    ...project,
+    id: createProjectId(),
+    segments,
+    music,
+    referenceImages,
+    updatedAt: Date.now(),
+  } as GeneratedVideo);
+};
@@ -0,0 +1,303 @@
+import { AspectRatio, AssetTake, GeneratedVideo, MusicTrack, ReferenceImage, VideoSegment, VIDEO_SCHEMA_VERSION } from "../types";
+import { DEFAULT_IMAGE_MIME_TYPE, PCM_MIME_TYPE, base64ToBlob, blobToBase64, isVideoClip } from "./mediaUtils";
+import { createTake } from "./takes";
+import { resolveStylePreset } from "./stylePresets";
+
+// Local project library backed by IndexedDB. Full projects and their lightweight
+// summaries live in separate stores so the library view never has to load every
+// image and voiceover just to draw a list.
+
+const DB_NAME = 'tubegen';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+
+const THUMBNAIL_WIDTH = 320;
+
+// Segments are stored with their assets as Blobs instead of base64 strings (~25% smaller,
+// and IndexedDB can keep them out of the structured-clone string heap). Only the takes are
+// persisted; imageData/audioData are rebuilt from the active takes on load.
+type StoredTake = Omit<AssetTake, 'data'> & { data: Blob };
+
+type StoredSegment = Omit<VideoSegment, 'imageData' | 'audioData' | 'imageTakes' | 'audioTakes'> & {
+  imageTakes: StoredTake[];
+  audioTakes: StoredTake[];
+};
+
+// Schema v1 stored a single image/audio Blob per segment
+type LegacyStoredSegment = Omit<VideoSegment, 'imageData' | 'audioData'> & {
+  image: Blob;
+  audio: Blob;
+};
+
+type StoredMusic = Omit<MusicTrack, 'data'> & { data: Blob };
+
+type StoredReference = Omit<ReferenceImage, 'data'> & { data: Blob };
+
+interface StoredProject extends Omit<GeneratedVideo, 'segments' | 'music' | 'referenceImages'> {
+  segments: (StoredSegment | LegacyStoredSegment)[];
+  music?: StoredMusic;
+  referenceImages?: StoredReference[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  topic: string;
+  style: string; // the style preset's name (its id in summaries saved before presets)
+  aspectRatio: AspectRatio;
+  segmentCount: number;
+  timestamp: number;
+  updatedAt: number;
+  thumbnail?: Blob;
+}
+
+// --- Schema migrations ---
+
+// A project as read from storage or a bundle, before it has been migrated
+type RawProject = Record<string, unknown>;
+
+// A v1 segment: a single image and voiceover, no takes
+interface LegacySegmentV1 extends RawProject {
+  text?: string;
+  imagePrompt?: string;
+  imageData?: string;
+  audioData?: string;
+  imageStale?: boolean;
+  audioStale?: boolean;
+}
+
+// Each step upgrades a raw project from version N to N + 1. Saves made before
+// versioning existed have no schemaVersion and are treated as version 0.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  0: (project) => ({ ...project, title: project.title || project.topic }),
+  // v2: segments keep a history of takes instead of a single image/voiceover
+  1: (project) => ({
+    ...project,
+    segments: (Array.isArray(project.segments) ? (project.segments as LegacySegmentV1[]) : []).map(segment => {
+      // A stale asset wasn't made from the current text, so give its take an unknown source
+      const imageTake = segment.imageData ? createTake(segment.imageData, segment.imageStale ? '' : segment.imagePrompt || '') : null;
+      const audioTake = segment.audioData ? createTake(segment.audioData, segment.audioStale ? '' : segment.text || '') : null;
+      return {
+        ...segment,
+        imageTakes: imageTake ? [imageTake] : [],
+        audioTakes: audioTake ? [audioTake] : [],
+        activeImageTakeId: imageTake?.id,
+        activeAudioTakeId: audioTake?.id,
+      };
+    }),
+  }),
+};
+
+export const migrateProject = <T extends { schemaVersion?: number }>(raw: T): T => {
+  let project: RawProject = { ...raw };
+  let version = raw.schemaVersion ?? 0;
+
+  if (version > VIDEO_SCHEMA_VERSION) {
+    throw new Error(`This project was saved by a newer version of TubeGen (schema v${version}).`);
+  }
+
+  while (version < VIDEO_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from project schema v${version}.`);
+    project = step(project);
+    version++;
+  }
+
+  return { ...project, schemaVersion: VIDEO_SCHEMA_VERSION } as unknown as T;
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Conversion ---
+
+// Uploaded takes keep their own type; older takes predate the field
+const storeTakes = (takes: AssetTake[], defaultMimeType: string): StoredTake[] =>
+  takes.map(take => ({ ...take, data: base64ToBlob(take.data, take.mimeType || defaultMimeType) }));
+
+const loadTakes = (takes: StoredTake[]): Promise<AssetTake[]> =>
+  Promise.all(takes.map(async take => ({ ...take, data: await blobToBase64(take.data) })));
+
+const toStored = (video: GeneratedVideo): StoredProject => ({
+  ...video,
+  music: video.music && { ...video.music, data: base64ToBlob(video.music.data, video.music.mimeType) },
+  referenceImages: video.referenceImages?.map(ref => ({ ...ref, data: base64ToBlob(ref.data, ref.mimeType) })),
+  segments: video.segments.map(({ imageData, audioData, imageTakes, audioTakes, ...rest }) => ({
+    ...rest,
+    imageTakes: storeTakes(imageTakes, DEFAULT_IMAGE_MIME_TYPE),
+    audioTakes: storeTakes(audioTakes, PCM_MIME_TYPE),
+  })),
+});
+
+const fromStoredSegment = async (stored: StoredSegment | LegacyStoredSegment) => {
+  if ('image' in stored) {
+    // Pre-v2 save: hand back the v1 shape and let migrateProject build the takes
+    const { image, audio, ...rest } = stored;
+    return { ...rest, imageData: await blobToBase64(image), audioData: await blobToBase64(audio) };
+  }
+  const imageTakes = await loadTakes(stored.imageTakes);
+  const audioTakes = await loadTakes(stored.audioTakes);
+  return {
+    ...stored,
+    imageTakes,
+    audioTakes,
+    imageData: imageTakes.find(t => t.id === stored.activeImageTakeId)?.data || '',
+    audioData: audioTakes.find(t => t.id === stored.activeAudioTakeId)?.data || '',
+  };
+};
+
+const fromStored = async (stored: StoredProject): Promise<GeneratedVideo> => {
+  const segments = await Promise.all(stored.segments.map(fromStoredSegment));
+  const music = stored.music && { ...stored.music, data: await blobToBase64(stored.music.data) };
+  const referenceImages = stored.referenceImages && await Promise.all(
+    stored.referenceImages.map(async ref => ({ ...ref, data: await blobToBase64(ref.data) }))
+  );
+  return migrateProject({ ...stored, segments, music, referenceImages } as GeneratedVideo);
+};
+
+const createThumbnail = async (segment?: StoredSegment): Promise<Blob | undefined> => {
+  const image = segment?.imageTakes.find(t => t.id === segment.activeImageTakeId)?.data;
+  // Clips get the library's placeholder rather than a decoded frame
+  if (!image || image.size === 0 || isVideoClip(image.type)) return undefined;
+  try {
+    const bitmap = await createImageBitmap(image);
+    const height = Math.round((bitmap.height / bitmap.width) * THUMBNAIL_WIDTH);
+    const canvas = new OffscreenCanvas(THUMBNAIL_WIDTH, height);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, THUMBNAIL_WIDTH, height);
+    bitmap.close();
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } catch (err) {
+    console.error("Could not create thumbnail", err);
+    return undefined;
+  }
+};
+
+const toSummary = async (project: StoredProject): Promise<ProjectSummary> => ({
+  id: project.id,
+  title: project.title || project.topic,
+  topic: project.topic,
+  style: resolveStylePreset(project).name,
+  aspectRatio: project.aspectRatio,
+  segmentCount: project.segments.length,
+  timestamp: project.timestamp,
+  updatedAt: project.updatedAt || project.timestamp,
+  thumbnail: await createThumbnail(project.segments[0] as StoredSegment),
+});
+
+// --- Public API ---
+
+// Unique even when several runs create projects in the same millisecond
+export const createProjectId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const saveProject = async (video: GeneratedVideo): Promise<GeneratedVideo> => {
+  const saved: GeneratedVideo = {
+    ...video,
+    schemaVersion: VIDEO_SCHEMA_VERSION,
+    title: video.title || video.topic,
+    updatedAt: Date.now(),
+  };
+  const stored = toStored(saved);
+  // Build the thumbnail before opening the transaction; IDB transactions auto-commit across awaits
+  const summary = await toSummary(stored);
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(stored);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(tx);
+
+  return saved;
+};
+
+export const loadProject = async (id: string): Promise<GeneratedVideo> => {
+  const db = await openDb();
+  const stored = await promisify<StoredProject | undefined>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!stored) throw new Error("Project not found. It may have been deleted.");
+  return fromStored(stored);
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await promisify<ProjectSummary[]>(
+    db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const renameProject = async (id: string, title: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const summaries = tx.objectStore(SUMMARIES_STORE);
+
+  const [project, summary] = await Promise.all([
+    promisify<StoredProject | undefined>(projects.get(id)),
+    promisify<ProjectSummary | undefined>(summaries.get(id)),
+  ]);
+  if (!project || !summary) throw new Error("Project not found. It may have been deleted.");
+
+  const updatedAt = Date.now();
+  projects.put({ ...project, title, updatedAt });
+  summaries.put({ ...summary, title, updatedAt });
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<GeneratedVideo> => {
+  const original = await loadProject(id);
+  const copyId = createProjectId();
+  return saveProject({
+    ...original,
+    id: copyId,
+    title: `${original.title || original.topic} (copy)`,
+    segments: original.segments.map((segment, i) => ({ ...segment, id: `seg-${copyId}-${i + 1}` })),
+    timestamp: Date.now(),
+  });
+};
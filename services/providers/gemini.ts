@@ -0,0 +1,178 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { VoiceSettings } from "../../types";
+import { VOICES } from "../voices";
+import { DEFAULT_IMAGE_MIME_TYPE, PCM_MIME_TYPE } from "../mediaUtils";
+import { Provider, ScriptRequest } from "./registry";
+import { parseScript } from "./scriptPrompt";
+import { createEmptyResponseError, createGenerationError } from "../errors";
+
+const getClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw createGenerationError('auth', "API Key not found. Please select a key.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const buildScriptSchema = ({ plan, voice, chapterCount }: ScriptRequest) => {
+  const isDialogue = voice.mode === 'dialogue';
+  const spokenSchema = isDialogue
+    ? {
+        lines: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              speaker: { type: Type.STRING, enum: voice.speakers.map(s => s.speaker) },
+              text: { type: Type.STRING },
+            },
+            required: ["speaker", "text"]
+          }
+        }
+      }
+    : { narration: { type: Type.STRING } };
+
+  return {
+    type: Type.OBJECT,
+    properties: {
+      style_bible: {
+        type: Type.OBJECT,
+        properties: {
+          characters: { type: Type.STRING },
+          setting: { type: Type.STRING },
+          palette: { type: Type.STRING },
+          camera: { type: Type.STRING },
+        },
+        required: ["characters", "setting", "palette", "camera"]
+      },
+      scenes: {
+        type: Type.ARRAY,
+        minItems: String(plan.sceneCount),
+        maxItems: String(plan.sceneCount),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            ...spokenSchema,
+            visual_prompt: { type: Type.STRING },
+            ...(chapterCount ? { chapter: { type: Type.STRING } } : {}),
+          },
+          required: [isDialogue ? "lines" : "narration", "visual_prompt", ...(chapterCount ? ["chapter"] : [])]
+        }
+      },
+      seo: {
+        type: Type.OBJECT,
+        properties: {
+          titles: { type: Type.ARRAY, items: { type: Type.STRING } },
+          description: { type: Type.STRING },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["titles", "description", "tags", "hashtags"]
+      }
+    },
+    required: ["style_bible", "scenes", "seo"]
+  };
+};
+
+// Why a response has no usable content: the prompt was blocked, or the candidate stopped early
+const describeEmptyResponse = (response: GenerateContentResponse, what: string) => {
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason;
+  const blockedCategories = (candidate?.safetyRatings || [])
+    .filter(rating => rating.blocked)
+    .map(rating => rating.category)
+    .join(', ');
+  const safetyReason = [blockReason, response.promptFeedback?.blockReasonMessage, blockedCategories].filter(Boolean).join(': ');
+  const detail = candidate?.finishMessage ? ` (${candidate.finishMessage})` : '';
+  return createEmptyResponseError(`No ${what} generated${detail}`, candidate?.finishReason, safetyReason || undefined);
+};
+
+const buildSpeechConfig = (voice: VoiceSettings) =>
+  voice.mode === 'dialogue'
+    ? {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: voice.speakers.map(({ speaker, voiceName }) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          })),
+        },
+      }
+    : {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voice.voiceName },
+        },
+      };
+
+export const geminiProvider: Provider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Gemini Flash models through your AI Studio key.',
+
+  script: {
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    generateScript: async (request, prompt, { model, signal }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: buildScriptSchema(request),
+        }
+      });
+      if (!response.text) throw describeEmptyResponse(response, 'script');
+      return parseScript(response.text, response.candidates?.[0]?.finishReason);
+    },
+  },
+
+  image: {
+    // Flash Image for speed and free-tier availability where applicable
+    models: ['gemini-2.5-flash-image'],
+    supportsReferences: true,
+    generateImage: async (prompt, aspectRatio, references, { model, signal }) => {
+      // References go first so the prompt can talk about "the reference images"
+      const response = await getClient().models.generateContent({
+        model,
+        contents: {
+          parts: [
+            ...references.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } })),
+            { text: prompt },
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          imageConfig: { aspectRatio },
+        },
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        // A part without image bytes isn't an image; with none at all the answer is empty
+        if (part.inlineData?.data) {
+          return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || DEFAULT_IMAGE_MIME_TYPE };
+        }
+      }
+      throw describeEmptyResponse(response, 'image');
+    },
+  },
+
+  tts: {
+    models: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+    voices: VOICES,
+    acceptsInstructions: true,
+    generateSpeech: async (text, voice, { model, signal }) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: buildSpeechConfig(voice),
+        },
+      });
+
+      const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!data) throw describeEmptyResponse(response, 'audio');
+      return { data, mimeType: PCM_MIME_TYPE };
+    },
+  },
+};
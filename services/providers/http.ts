@@ -0,0 +1,55 @@
+// fetch() for the REST backends. Failed responses throw with `status` set, so the shared
+// retry logic treats a 429 or 503 from any provider the same way as one from Gemini.
+
+export interface HttpError extends Error {
+  status: number;
+  code?: string; // the body's error.code, e.g. content_policy_violation
+}
+
+const toHttpError = async (response: Response, label: string): Promise<HttpError> => {
+  let detail = '';
+  let code: string | undefined;
+  try {
+    const body = await response.text();
+    try {
+      const { error } = JSON.parse(body);
+      detail = error?.message || body;
+      code = typeof error?.code === 'string' ? error.code : undefined;
+    } catch {
+      detail = body;
+    }
+  } catch {
+    // body unreadable; the status is enough
+  }
+  const error = new Error(`${label} returned ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`) as HttpError;
+  error.status = response.status;
+  error.code = code;
+  return error;
+};
+
+export const postJson = async (url: string, body: unknown, label: string, apiKey?: string, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await toHttpError(response, label);
+  return response;
+};
+
+export const postForm = async (url: string, form: FormData, label: string, apiKey?: string, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    body: form,
+    signal,
+  });
+  if (!response.ok) throw await toHttpError(response, label);
+  return response;
+};
+
+export const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
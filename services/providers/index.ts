@@ -0,0 +1,10 @@
+import { registerProvider } from "./registry";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { piperProvider, stableDiffusionProvider } from "./local";
+import { mockProvider } from "./mock";
+
+// Built-in backends, in the order the Models panel lists them
+[geminiProvider, openAIProvider, stableDiffusionProvider, piperProvider, mockProvider].forEach(registerProvider);
+
+export * from "./registry";
@@ -0,0 +1,85 @@
+import { AspectRatio } from "../../types";
+import { blobToBase64 } from "../mediaUtils";
+import { Provider, getEndpoint } from "./registry";
+import { joinUrl, postJson } from "./http";
+import { createEmptyResponseError, createGenerationError } from "../errors";
+
+// Self-hosted backends for running without a cloud key: an AUTOMATIC1111-style Stable
+// Diffusion WebUI started with --api, and a Piper HTTP server. Neither writes scripts.
+
+const SD_ID = 'stable-diffusion';
+const SD_LABEL = 'Stable Diffusion (local)';
+const PIPER_ID = 'piper';
+const PIPER_LABEL = 'Piper (local)';
+
+// Multiples of 64, which SD models are trained on
+const SD_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  [AspectRatio.LANDSCAPE]: { width: 1024, height: 576 },
+  [AspectRatio.PORTRAIT]: { width: 576, height: 1024 },
+  [AspectRatio.SQUARE]: { width: 1024, height: 1024 },
+  [AspectRatio.PORTRAIT_4_5]: { width: 832, height: 1024 },
+};
+
+const SD_NEGATIVE_PROMPT = 'text, watermark, logo, signature, blurry, lowres, deformed';
+
+const requireBaseUrl = (providerId: string, label: string) => {
+  const endpoint = getEndpoint(providerId);
+  if (!endpoint.baseUrl) throw createGenerationError('auth', `Set the server URL for ${label} in the Models panel.`);
+  return endpoint;
+};
+
+export const stableDiffusionProvider: Provider = {
+  id: SD_ID,
+  label: SD_LABEL,
+  description: 'Your own Stable Diffusion WebUI (AUTOMATIC1111/Forge) started with --api.',
+  defaultEndpoint: { baseUrl: 'http://127.0.0.1:7860', apiKey: '' },
+
+  image: {
+    // Blank keeps whatever checkpoint the server has loaded
+    models: ['', 'sd_xl_base_1.0'],
+    // img2img would copy the reference's composition, not just its characters
+    supportsReferences: false,
+    supportsNegativePrompt: true,
+    generateImage: async (prompt, aspectRatio, _references, { model, signal, negativePrompt }) => {
+      const { baseUrl, apiKey } = requireBaseUrl(SD_ID, SD_LABEL);
+      const response = await postJson(joinUrl(baseUrl, '/sdapi/v1/txt2img'), {
+        prompt,
+        negative_prompt: [negativePrompt, SD_NEGATIVE_PROMPT].filter(Boolean).join(', '),
+        steps: 25,
+        ...SD_SIZES[aspectRatio],
+        ...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+      }, SD_LABEL, apiKey, signal);
+      const json = await response.json();
+      const data = json.images?.[0];
+      if (!data) throw createEmptyResponseError("No image generated");
+      return { data, mimeType: 'image/png' };
+    },
+  },
+};
+
+export const piperProvider: Provider = {
+  id: PIPER_ID,
+  label: PIPER_LABEL,
+  description: 'A Piper TTS server (python -m piper.http_server). One voice per model.',
+  defaultEndpoint: { baseUrl: 'http://127.0.0.1:5000', apiKey: '' },
+
+  tts: {
+    // Blank uses the server's default voice model
+    models: ['', 'en_US-lessac-medium', 'en_US-ryan-high', 'en_GB-alba-medium'],
+    voices: [],
+    generateSpeech: async (text, voice, { model, signal }) => {
+      if (voice.mode === 'dialogue') {
+        throw createGenerationError('unsupported', `${PIPER_LABEL} speaks with a single voice. Switch narration to a single narrator or pick another voice provider.`);
+      }
+      const { baseUrl, apiKey } = requireBaseUrl(PIPER_ID, PIPER_LABEL);
+      const response = await postJson(
+        joinUrl(baseUrl, '/'),
+        { text, ...(model ? { voice: model } : {}) },
+        PIPER_LABEL,
+        apiKey,
+        signal
+      );
+      return { data: await blobToBase64(await response.blob()), mimeType: 'audio/wav' };
+    },
+  },
+};
@@ -0,0 +1,172 @@
+import { AspectRatio, VoiceSettings } from "../../types";
+import { PCM_MIME_TYPE, TTS_SAMPLE_RATE, blobToBase64, encodeBase64 } from "../mediaUtils";
+import { splitDialogueLines } from "../voices";
+import { Provider, RawScene } from "./registry";
+
+// Offline stand-in for development and tests. Needs no key or network, and the same
+// input always produces the same script, image and audio: scenes are assembled from a word
+// list, images are drawn gradients and narration is a beep per word, timed like speech.
+
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for placeholder content
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const WORDS = [
+  'imagine', 'discover', 'the', 'secret', 'behind', 'every', 'story', 'world', 'moment', 'changes',
+  'nobody', 'expected', 'this', 'simple', 'idea', 'turns', 'out', 'bigger', 'than', 'you', 'think',
+  'here', 'is', 'why', 'it', 'matters', 'today', 'and', 'what', 'comes', 'next',
+];
+
+const SHOTS = ['wide establishing shot', 'close-up', 'aerial view', 'over-the-shoulder shot', 'macro detail', 'silhouette at dusk'];
+
+const makeSentence = (random: () => number, wordCount: number) => {
+  const words = Array.from({ length: wordCount }, () => WORDS[Math.floor(random() * WORDS.length)]);
+  const sentence = words.join(' ');
+  return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+};
+
+const MOCK_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  [AspectRatio.LANDSCAPE]: { width: 640, height: 360 },
+  [AspectRatio.PORTRAIT]: { width: 360, height: 640 },
+  [AspectRatio.SQUARE]: { width: 480, height: 480 },
+  [AspectRatio.PORTRAIT_4_5]: { width: 384, height: 480 },
+};
+
+const drawPlaceholder = async (prompt: string, aspectRatio: AspectRatio) => {
+  const { width, height } = MOCK_SIZES[aspectRatio];
+  const random = createRandom(hashString(prompt));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 15%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 6; i++) {
+    ctx.fillStyle = `hsla(${(hue + random() * 120) % 360}, 70%, 60%, 0.25)`;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, 20 + random() * width * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.font = `bold ${Math.round(width / 16)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK', width / 2, height / 2);
+  ctx.font = `${Math.round(width / 32)}px sans-serif`;
+  ctx.fillText(prompt.slice(0, 40), width / 2, height / 2 + width / 16);
+
+  return blobToBase64(await canvas.convertToBlob({ type: 'image/png' }));
+};
+
+// Beeps at a per-speaker pitch, one per word, with longer gaps after punctuation so
+// pause-based caption timing has something to find
+const synthesizeTurn = (samples: number[], text: string, pitch: number, speed: number) => {
+  const push = (seconds: number, frequency: number) => {
+    const count = Math.round((seconds / speed) * TTS_SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      const envelope = Math.min(1, i / 240, (count - i) / 240); // 10ms ramps, no clicks
+      samples.push(frequency ? Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) * 0.3 * envelope : 0);
+    }
+  };
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    push(Math.max(0.15, word.length * 0.06), pitch);
+    push(/[.!?,;:]$/.test(word) ? 0.3 : 0.08, 0);
+  }
+};
+
+const synthesizeSpeech = (text: string, voice: VoiceSettings) => {
+  const speed = voice.pace === 'fast' ? 1.25 : voice.pace === 'slow' ? 0.8 : 1;
+  const pitchFor = (voiceName: string) => 180 + (hashString(voiceName) % 200);
+  const turns = voice.mode === 'dialogue'
+    ? splitDialogueLines(text, voice).map(turn => ({ text: turn.text, voiceName: turn.speaker.voiceName }))
+    : [{ text, voiceName: voice.voiceName }];
+
+  const samples: number[] = [];
+  for (const turn of turns) synthesizeTurn(samples, turn.text, pitchFor(turn.voiceName), speed);
+
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => view.setInt16(i * 2, Math.round(sample * 32767), true));
+  return encodeBase64(bytes);
+};
+
+export const mockProvider: Provider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'Deterministic placeholder script, images and beeps. No key or network needed.',
+
+  script: {
+    models: ['mock-script'],
+    generateScript: async ({ topic, style, plan, voice, chapterCount }) => {
+      const random = createRandom(hashString(`${topic}|${style}|${plan.sceneCount}`));
+      const wordCount = Math.max(4, Math.round(plan.wordsPerScene * 0.8));
+
+      const scenes = Array.from({ length: plan.sceneCount }, (_, i): RawScene => {
+        const visual_prompt = `${topic}, ${SHOTS[Math.floor(random() * SHOTS.length)]}, scene ${i + 1}`;
+        // Scenes split evenly between the chapters
+        const chapter = chapterCount ? `Part ${Math.floor((i * chapterCount) / plan.sceneCount) + 1}` : undefined;
+        if (voice.mode === 'dialogue') {
+          const half = Math.ceil(wordCount / 2);
+          return {
+            lines: voice.speakers.map(s => ({ speaker: s.speaker, text: makeSentence(random, half) })),
+            visual_prompt,
+            chapter,
+          };
+        }
+        return { narration: makeSentence(random, wordCount), visual_prompt, chapter };
+      });
+      const tag = topic.toLowerCase().replace(/[^a-z0-9]+/g, '');
+      return {
+        style_bible: {
+          characters: 'none',
+          setting: `a placeholder world about ${topic}`,
+          palette: 'two-tone gradients',
+          camera: 'flat, centered framing',
+        },
+        seo: {
+          titles: [topic, `${topic}: explained`, `Everything about ${topic}`],
+          description: makeSentence(random, 20),
+          tags: [topic.toLowerCase(), style.toLowerCase(), 'mock'],
+          hashtags: [`#${tag || 'mock'}`],
+        },
+        scenes,
+      };
+    },
+  },
+
+  image: {
+    models: ['mock-image'],
+    supportsReferences: false,
+    generateImage: async (prompt, aspectRatio) => ({
+      data: await drawPlaceholder(prompt, aspectRatio),
+      mimeType: 'image/png',
+    }),
+  },
+
+  tts: {
+    models: ['mock-tts'],
+    voices: [
+      { name: 'Low', desc: 'Deep beeps' },
+      { name: 'Mid', desc: 'Neutral beeps' },
+      { name: 'High', desc: 'Bright beeps' },
+    ],
+    generateSpeech: async (text, voice) => ({ data: synthesizeSpeech(text, voice), mimeType: PCM_MIME_TYPE }),
+  },
+};
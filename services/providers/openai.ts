@@ -0,0 +1,151 @@
+import { AspectRatio, VoiceSettings } from "../../types";
+import { PCM_MIME_TYPE, TTS_SAMPLE_RATE, base64ToBlob, encodeBase64 } from "../mediaUtils";
+import { describeDelivery, splitDialogueLines } from "../voices";
+import { CallOptions, Provider, getEndpoint } from "./registry";
+import { joinUrl, postForm, postJson } from "./http";
+import { parseScript } from "./scriptPrompt";
+import { createEmptyResponseError, createGenerationError } from "../errors";
+
+// Anything that speaks the OpenAI REST API: OpenAI itself, or a compatible gateway/local
+// server (LiteLLM, vLLM, Ollama's /v1, ...). Set the base URL and key in the Models panel.
+
+const PROVIDER_ID = 'openai';
+const LABEL = 'OpenAI-compatible';
+
+const VOICES = [
+  { name: 'alloy', desc: 'Neutral' },
+  { name: 'ash', desc: 'Warm' },
+  { name: 'coral', desc: 'Bright' },
+  { name: 'echo', desc: 'Calm' },
+  { name: 'fable', desc: 'Storyteller' },
+  { name: 'nova', desc: 'Upbeat' },
+  { name: 'onyx', desc: 'Deep' },
+  { name: 'sage', desc: 'Measured' },
+  { name: 'shimmer', desc: 'Clear' },
+];
+
+// Pause between dialogue turns, which are spoken one request at a time
+const TURN_GAP_SECONDS = 0.25;
+
+// Voice names picked for another provider map to a stable voice here, so the two
+// dialogue hosts still sound different
+const resolveVoice = (name: string) => {
+  if (VOICES.some(v => v.name === name)) return name;
+  const hash = [...name].reduce((acc, ch) => acc + ch.charCodeAt(0), 0);
+  return VOICES[hash % VOICES.length].name;
+};
+
+const getEndpointOrFail = () => {
+  const endpoint = getEndpoint(PROVIDER_ID);
+  if (!endpoint.baseUrl) throw createGenerationError('auth', `Set a base URL for the ${LABEL} provider in the Models panel.`);
+  return endpoint;
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+  const { baseUrl, apiKey } = getEndpointOrFail();
+  return postJson(joinUrl(baseUrl, path), body, LABEL, apiKey, signal);
+};
+
+const readImage = async (response: Response) => {
+  const json = await response.json();
+  const data = json.data?.[0]?.b64_json;
+  if (!data) throw createEmptyResponseError("No image generated");
+  return { data, mimeType: 'image/png' };
+};
+
+// Only three sizes per model; 4:5 gets the portrait one and is cropped to fit
+const imageSize = (model: string, aspectRatio: AspectRatio) => {
+  if (aspectRatio === AspectRatio.SQUARE) return '1024x1024';
+  const portrait = aspectRatio !== AspectRatio.LANDSCAPE;
+  if (model.startsWith('dall-e-3')) return portrait ? '1024x1792' : '1792x1024';
+  return portrait ? '1024x1536' : '1536x1024';
+};
+
+// Raw 24kHz 16-bit PCM, the same format Gemini TTS returns
+const speak = async (input: string, voiceName: string, voice: VoiceSettings, { model, signal }: CallOptions) => {
+  const delivery = describeDelivery(voice);
+  const response = await post('/audio/speech', {
+    model,
+    input,
+    voice: resolveVoice(voiceName),
+    response_format: 'pcm',
+    ...(delivery ? { instructions: `Speak ${delivery}.` } : {}),
+  }, signal);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const openAIProvider: Provider = {
+  id: PROVIDER_ID,
+  label: LABEL,
+  description: 'OpenAI or any server with the same API, e.g. LiteLLM or Ollama.',
+  defaultEndpoint: { baseUrl: 'https://api.openai.com/v1', apiKey: '' },
+
+  script: {
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'],
+    generateScript: async (_request, prompt, { model, signal }) => {
+      const response = await post('/chat/completions', {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+      }, signal);
+      const json = await response.json();
+      const choice = json.choices?.[0];
+      return parseScript(choice?.message?.content, choice?.finish_reason);
+    },
+  },
+
+  image: {
+    models: ['gpt-image-1', 'dall-e-3'],
+    supportsReferences: true,
+    generateImage: async (prompt, aspectRatio, references, { model, signal }) => {
+      // With references, gpt-image-1 composes from them through the edits endpoint. DALL·E can't.
+      if (references.length > 0 && !model.startsWith('dall-e')) {
+        const { baseUrl, apiKey } = getEndpointOrFail();
+        const form = new FormData();
+        form.append('model', model);
+        form.append('prompt', prompt);
+        form.append('size', imageSize(model, aspectRatio));
+        references.forEach(({ data, mimeType }, i) =>
+          form.append('image[]', base64ToBlob(data, mimeType), `reference-${i + 1}.${mimeType.split('/')[1] || 'png'}`));
+        return readImage(await postForm(joinUrl(baseUrl, '/images/edits'), form, LABEL, apiKey, signal));
+      }
+      const response = await post('/images/generations', {
+        model,
+        prompt,
+        n: 1,
+        size: imageSize(model, aspectRatio),
+        // gpt-image-1 always returns base64; DALL·E has to be asked
+        ...(model.startsWith('dall-e') ? { response_format: 'b64_json' } : {}),
+      }, signal);
+      return readImage(response);
+    },
+  },
+
+  tts: {
+    models: ['gpt-4o-mini-tts', 'tts-1', 'tts-1-hd'],
+    voices: VOICES,
+    generateSpeech: async (text, voice, options) => {
+      if (voice.mode !== 'dialogue') {
+        return { data: encodeBase64(await speak(text, voice.voiceName, voice, options)), mimeType: PCM_MIME_TYPE };
+      }
+      // One request per turn, joined with a short silence (two bytes per sample)
+      const gap = new Uint8Array(Math.round(TURN_GAP_SECONDS * TTS_SAMPLE_RATE) * 2);
+      const parts: Uint8Array[] = [];
+      for (const turn of splitDialogueLines(text, voice)) {
+        if (parts.length) parts.push(gap);
+        parts.push(await speak(turn.text, turn.speaker.voiceName, voice, options));
+      }
+      return { data: encodeBase64(concatBytes(parts)), mimeType: PCM_MIME_TYPE };
+    },
+  },
+};
@@ -0,0 +1,171 @@
+import { AspectRatio, GeneratedVideo, ProviderKind, ProviderSelection, ProviderSettings, SeoMetadata, StyleBible, VoiceSettings } from "../../types";
+import { ScenePlan } from "../scenePlan";
+
+// Script, image and speech generation sit behind these interfaces so the workflow doesn't
+// care which backend answers. Providers register themselves in ./index.ts; a provider can
+// implement any subset of the three (e.g. Piper only speaks).
+
+export interface RawScene {
+  narration?: string;
+  lines?: { speaker: string; text: string }[]; // dialogue mode
+  visual_prompt: string;
+  chapter?: string; // when chapters were asked for
+}
+
+export type RawSeo = Partial<Omit<SeoMetadata, 'chapters'>>;
+
+export interface RawScript {
+  style_bible?: Partial<StyleBible>;
+  seo?: RawSeo;
+  scenes: RawScene[];
+}
+
+export interface ScriptRequest {
+  topic: string;
+  style: string; // the style preset's name
+  tone: string; // the style preset's writing instruction
+  isShorts: boolean;
+  plan: ScenePlan;
+  voice: VoiceSettings;
+  chapterCount?: number; // ask for chapter headings (long 16:9 videos)
+  correction?: string; // appended when re-asking after a bad answer
+}
+
+export interface GeneratedAsset {
+  data: string; // base64
+  mimeType: string;
+}
+
+// Passed to every call: the model picked for this video and the run's abort signal
+export interface CallOptions {
+  model: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageCallOptions extends CallOptions {
+  negativePrompt?: string; // only sent to backends with supportsNegativePrompt
+}
+
+export interface ScriptGenerator {
+  models: string[]; // suggestions for the UI, the first is the default; any model name is accepted
+  // `prompt` is the rendered script prompt; the request is there for backends that also send a schema
+  generateScript: (request: ScriptRequest, prompt: string, options: CallOptions) => Promise<RawScript>;
+}
+
+export interface ImageGenerator {
+  models: string[];
+  supportsReferences: boolean; // whether reference images reach the model; ignored otherwise
+  supportsNegativePrompt?: boolean; // otherwise the negative prompt is folded into the prompt
+  generateImage: (
+    prompt: string,
+    aspectRatio: AspectRatio,
+    references: GeneratedAsset[],
+    options: ImageCallOptions
+  ) => Promise<GeneratedAsset>;
+}
+
+export interface SpeechGenerator {
+  models: string[];
+  voices: { name: string; desc: string }[]; // empty when the model itself is the voice
+  acceptsInstructions?: boolean; // gets the speech prompt (delivery preamble) instead of the bare text
+  generateSpeech: (text: string, voice: VoiceSettings, options: CallOptions) => Promise<GeneratedAsset>;
+}
+
+// Where self-hosted and third-party backends live. Kept in this browser only, never in saves.
+export interface ProviderEndpoint {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface Provider {
+  id: string;
+  label: string;
+  description: string;
+  defaultEndpoint?: ProviderEndpoint; // set for providers that talk to a configurable server
+  script?: ScriptGenerator;
+  image?: ImageGenerator;
+  tts?: SpeechGenerator;
+}
+
+const registry = new Map<string, Provider>();
+
+export const registerProvider = (provider: Provider) => {
+  registry.set(provider.id, provider);
+};
+
+export const listProviders = (kind?: ProviderKind) =>
+  [...registry.values()].filter(provider => !kind || provider[kind]);
+
+export const getProvider = (id: string) => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`Unknown provider "${id}".`);
+  return provider;
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  script: { providerId: 'gemini', model: 'gemini-2.5-flash' },
+  image: { providerId: 'gemini', model: 'gemini-2.5-flash-image' },
+  tts: { providerId: 'gemini', model: 'gemini-2.5-flash-preview-tts' },
+};
+
+export const getVideoProviders = (video: Pick<GeneratedVideo, 'providers'>) =>
+  video.providers || DEFAULT_PROVIDER_SETTINGS;
+
+const getGenerator = <K extends ProviderKind>(kind: K, selection: ProviderSelection): NonNullable<Provider[K]> => {
+  const provider = getProvider(selection.providerId);
+  const generator = provider[kind];
+  if (!generator) throw new Error(`${provider.label} can't generate ${kind === 'tts' ? 'speech' : kind + 's'}.`);
+  return generator as NonNullable<Provider[K]>;
+};
+
+export const getScriptGenerator = (selection: ProviderSelection) => getGenerator('script', selection);
+export const getImageGenerator = (selection: ProviderSelection) => getGenerator('image', selection);
+export const getSpeechGenerator = (selection: ProviderSelection) => getGenerator('tts', selection);
+
+// The default model for a provider, used when switching providers in the UI
+export const selectProvider = (kind: ProviderKind, providerId: string): ProviderSelection => ({
+  providerId,
+  model: getProvider(providerId)[kind]?.models[0] || '',
+});
+
+// The studio starts from the last choice made in this browser
+const PREFERRED_KEY = 'tubegen.providers';
+
+export const getPreferredProviders = (): ProviderSettings => {
+  let stored: Partial<ProviderSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PREFERRED_KEY) || '{}');
+  } catch {
+    // corrupt entry: start from the defaults
+  }
+  const pick = (kind: ProviderKind) => {
+    const selection = stored[kind];
+    return selection && registry.get(selection.providerId)?.[kind] ? selection : DEFAULT_PROVIDER_SETTINGS[kind];
+  };
+  return { script: pick('script'), image: pick('image'), tts: pick('tts') };
+};
+
+export const setPreferredProviders = (providers: ProviderSettings) => {
+  localStorage.setItem(PREFERRED_KEY, JSON.stringify(providers));
+};
+
+// --- Endpoints ---
+
+const ENDPOINTS_KEY = 'tubegen.providerEndpoints';
+
+const readEndpoints = (): Record<string, ProviderEndpoint> => {
+  try {
+    return JSON.parse(localStorage.getItem(ENDPOINTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getEndpoint = (providerId: string): ProviderEndpoint => {
+  const fallback = registry.get(providerId)?.defaultEndpoint || { baseUrl: '', apiKey: '' };
+  return { ...fallback, ...readEndpoints()[providerId] };
+};
+
+export const setEndpoint = (providerId: string, endpoint: ProviderEndpoint) => {
+  localStorage.setItem(ENDPOINTS_KEY, JSON.stringify({ ...readEndpoints(), [providerId]: endpoint }));
+};
@@ -0,0 +1,45 @@
+import { RawScript, ScriptRequest } from "./registry";
+import { createEmptyResponseError, createGenerationError } from "../errors";
+import { RenderedPrompt, renderPrompt } from "../promptTemplates";
+import { TITLE_OPTION_COUNT } from "../seo";
+
+// The script prompt every text backend gets, from the "script" template. Backends with
+// structured output (Gemini) also send a schema; the others rely on the JSON shape spelled out.
+export const buildScriptPrompt = ({ topic, style, tone, isShorts, plan, voice, chapterCount, correction }: ScriptRequest): RenderedPrompt => {
+  const { targetSeconds, sceneCount, wordsPerScene } = plan;
+  const spokenField = voice.mode === 'dialogue'
+    ? renderPrompt('script-dialogue', { speakers: voice.speakers.map(s => s.speaker), wordsPerScene })
+    : renderPrompt('script-narration', { wordsPerScene });
+  const chapterField = chapterCount ? renderPrompt('script-chapters', { chapterCount }).text : undefined;
+
+  return renderPrompt('script', {
+    topic,
+    format: isShorts ? "YouTube Short (short-form, fast paced)" : "YouTube Video (engaging, informative)",
+    style,
+    tone,
+    targetSeconds,
+    sceneCount,
+    spokenField: spokenField.text,
+    chapterField,
+    titleCount: TITLE_OPTION_COUNT,
+    correction,
+  });
+};
+
+// finishReason is the backend's reason for stopping, used to explain an empty answer
+export const parseScript = (text: string | undefined, finishReason?: string): RawScript => {
+  if (!text?.trim()) throw createEmptyResponseError("No script generated", finishReason);
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    const truncated = /MAX_TOKENS|length/i.test(finishReason || '') ? ' (the answer was cut off)' : '';
+    throw createGenerationError('malformed', `The script wasn't valid JSON${truncated}: ${text.slice(0, 120)}`, { finishReason });
+  }
+  // Valid JSON that isn't an object (null, a string, a list) is just as unusable
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw createGenerationError('malformed', `The script wasn't a JSON object: ${text.slice(0, 120)}`, { finishReason });
+  }
+  const script = json as Partial<RawScript>;
+  return { style_bible: script.style_bible, seo: script.seo, scenes: script.scenes || [] };
+};
@@ -0,0 +1,61 @@
+// Retry with exponential backoff for transient API failures (rate limits, overloaded
+// backends, dropped connections). Anything else is rethrown immediately.
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|rate limit|overloaded|Failed to fetch|NetworkError|network/i;
+
+export const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+export const isRetryableError = (error: unknown) => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  return RETRYABLE_MESSAGE.test((error as Error)?.message || '');
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Generation cancelled', 'AbortError');
+  }
+};
+
+// setTimeout that rejects as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 4, baseDelayMs = 2000, maxDelayMs = 60000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+
+      // Full jitter keeps parallel callers from retrying in lockstep
+      const delayMs = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs) * (0.5 + Math.random() / 2);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import { ErrorStage, GenerationError, describeErrorContext } from "./errors";
+
+// A record of every model request in one run (each attempt, retries and failures), so a
+// failed generation can be diagnosed or reported without opening the dev tools. Every run
+// (an interactive generation, a batch item) gets its own log.
+
+export type RunLogEvent = 'request' | 'success' | 'retry' | 'error';
+
+export interface RunLogEntry {
+  time: number; // ms since the run started
+  event: RunLogEvent;
+  stage: ErrorStage;
+  sceneIndex?: number;
+  provider: string;
+  model: string;
+  attempt: number; // 1-based
+  durationMs?: number;
+  detail?: string;
+  prompt?: string; // the final prompt, on a request's first attempt
+  promptSource?: string; // the templates it came from, e.g. "script@v1.2"
+}
+
+export interface RunLog {
+  add: (entry: Omit<RunLogEntry, 'time'>) => void;
+  getEntries: () => RunLogEntry[];
+  subscribe: (listener: () => void) => () => void;
+  format: (error?: GenerationError) => string;
+}
+
+const MAX_ENTRIES = 500;
+
+const formatEntry = (entry: RunLogEntry) =>
+  [
+    `+${(entry.time / 1000).toFixed(2)}s`,
+    entry.event.toUpperCase().padEnd(7),
+    entry.sceneIndex !== undefined ? `scene ${entry.sceneIndex + 1}` : '',
+    entry.stage,
+    `${entry.provider}/${entry.model || 'default'}`,
+    `#${entry.attempt}`,
+    entry.durationMs !== undefined ? `${Math.round(entry.durationMs)}ms` : '',
+    entry.detail || '',
+    entry.promptSource ? `prompt ${entry.promptSource}` : '',
+  ].filter(Boolean).join(' ');
+
+export const createRunLog = (title: string): RunLog => {
+  const startedAt = Date.now();
+  let entries: RunLogEntry[] = [];
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    add: (entry) => {
+      entries = [...entries.slice(-(MAX_ENTRIES - 1)), { ...entry, time: Date.now() - startedAt }];
+      notify();
+    },
+
+    getEntries: () => entries,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    // Plain text for pasting into a bug report
+    format: (error) => [
+      `TubeGen run: ${title}`,
+      `Started: ${new Date(startedAt).toISOString()}`,
+      ...(error
+        ? [
+            `Error: [${error.kind}] ${error.message}`,
+            `Where: ${describeErrorContext(error) || 'unknown'}`,
+            ...(error.status ? [`HTTP status: ${error.status}`] : []),
+            ...(error.finishReason ? [`Finish reason: ${error.finishReason}`] : []),
+            ...(error.safetyReason ? [`Safety: ${error.safetyReason}`] : []),
+          ]
+        : []),
+      '',
+      ...entries.map(formatEntry),
+    ].join('\n'),
+  };
+};
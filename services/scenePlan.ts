@@ -0,0 +1,36 @@
+// Derives how many scenes to ask for, and how long each narration may be, from a target
+// video length. Gemini TTS narrates at roughly 2.5 words per second.
+
+const WORDS_PER_SECOND = 2.5;
+const MIN_SCENES = 3;
+const MAX_SCENES = 60;
+
+export const TARGET_DURATIONS = [
+  { seconds: 15, label: '15s' },
+  { seconds: 30, label: '30s' },
+  { seconds: 60, label: '60s' },
+  { seconds: 180, label: '3 min' },
+  { seconds: 480, label: '8 min' },
+];
+
+export const DEFAULT_TARGET_DURATION = 30;
+
+export interface ScenePlan {
+  targetSeconds: number;
+  sceneCount: number;
+  wordsPerScene: number;
+}
+
+export const getScenePlan = (targetSeconds: number, isShorts: boolean): ScenePlan => {
+  // Shorts cut faster than long-form videos
+  const secondsPerScene = isShorts ? 6 : 10;
+  const sceneCount = Math.min(Math.max(Math.round(targetSeconds / secondsPerScene), MIN_SCENES), MAX_SCENES);
+  const wordsPerScene = Math.max(Math.round((targetSeconds * WORDS_PER_SECOND) / sceneCount), 5);
+  return { targetSeconds, sceneCount, wordsPerScene };
+};
+
+// Too many scenes: keep the opening ones and the final scene (usually the payoff / call to action)
+export const trimScenes = <T>(scenes: T[], sceneCount: number): T[] => {
+  if (scenes.length <= sceneCount) return scenes;
+  return [...scenes.slice(0, sceneCount - 1), scenes[scenes.length - 1]];
+};
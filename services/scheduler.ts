@@ -0,0 +1,115 @@
+import { sleep, throwIfAborted } from "./retry";
+
+// Runs API requests in parallel under a global concurrency cap and a per-model
+// requests-per-minute budget, so a free-tier key isn't rejected with 429s the
+// moment more than one scene is generated at a time.
+
+export type RateTier = 'free' | 'paid';
+
+export interface SchedulerConfig {
+  concurrency: number;
+  requestsPerMinute: Record<string, number>; // per "provider/model"; pairs not listed are unlimited
+}
+
+export const RATE_TIERS: Record<RateTier, SchedulerConfig> = {
+  free: {
+    concurrency: 2,
+    requestsPerMinute: {
+      'gemini/gemini-2.5-flash': 10,
+      'gemini/gemini-2.5-flash-image': 10,
+      'gemini/gemini-2.5-flash-preview-tts': 3,
+    },
+  },
+  paid: {
+    concurrency: 6,
+    requestsPerMinute: {
+      'gemini/gemini-2.5-flash': 1000,
+      'gemini/gemini-2.5-flash-image': 500,
+      'gemini/gemini-2.5-flash-preview-tts': 10,
+    },
+  },
+};
+
+const WINDOW_MS = 60_000;
+
+export const createScheduler = (initialConfig: SchedulerConfig) => {
+  let config = initialConfig;
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  const startedAt = new Map<string, number[]>(); // "provider/model" -> request start times within the window
+
+  const acquireSlot = (signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      throwIfAborted(signal);
+      if (active < config.concurrency) {
+        active++;
+        resolve();
+        return;
+      }
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(grant);
+        if (index >= 0) waiting.splice(index, 1);
+        reject(new DOMException('Generation cancelled', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiting.push(grant);
+    });
+
+  const releaseSlot = () => {
+    active--;
+    while (waiting.length > 0 && active < config.concurrency) {
+      waiting.shift()!();
+    }
+  };
+
+  // Sliding one-minute window per provider and model, since two backends serving the same
+  // model id have separate limits. Records the request and returns 0 when the budget allows
+  // it, otherwise how long until it will.
+  const reserveBudget = (key: string) => {
+    const limit = config.requestsPerMinute[key];
+    if (!limit) return 0;
+    const now = Date.now();
+    const recent = (startedAt.get(key) || []).filter(t => now - t < WINDOW_MS);
+    startedAt.set(key, recent);
+    if (recent.length >= limit) return recent[0] + WINDOW_MS - now;
+    recent.push(now);
+    return 0;
+  };
+
+  return {
+    // Resolves with the task's result once a slot and the model's budget allow it to run.
+    // A job out of budget gives its slot back while it sleeps, so jobs for other models
+    // aren't held up behind it.
+    run: async <T>(provider: string, model: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      for (;;) {
+        await acquireSlot(signal);
+        const delay = reserveBudget(`${provider}/${model}`);
+        if (delay === 0) break;
+        releaseSlot();
+        await sleep(delay, signal);
+      }
+      try {
+        return await task();
+      } finally {
+        releaseSlot();
+      }
+    },
+
+    configure: (next: SchedulerConfig) => {
+      config = next;
+      // A higher cap can start queued jobs straight away
+      while (waiting.length > 0 && active < config.concurrency) {
+        waiting.shift()!();
+      }
+    },
+
+    getConfig: () => config,
+  };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
@@ -0,0 +1,121 @@
+import { ScriptScene, VideoScript, VoiceSettings } from "../types";
+import { getScenePlan, trimScenes } from "./scenePlan";
+import { isShortForm } from "./aspectRatios";
+import { RawScene, RawScript, ScriptRequest } from "./providers";
+
+// Checks a script before any image or TTS quota is spent on it. Model output is checked
+// strictly (a failed check triggers a re-ask); scripts edited by hand in the review step
+// only get warnings for things that are a matter of taste, like length.
+
+export interface ScriptIssue {
+  severity: 'error' | 'warning';
+  sceneIndex?: number; // missing for problems with the script as a whole
+  message: string;
+}
+
+export type DraftScene = Pick<ScriptScene, 'narration' | 'visualPrompt' | 'chapter'>;
+
+// Narration can run this far over the per-scene word budget before it counts as too long
+const WORD_LIMIT_TOLERANCE = 1.5;
+
+// Image models render requested text badly, and captions already cover the narration
+const ON_SCREEN_TEXT =
+  /\b(on-?screen text|text overlay|caption(ed)?|subtitle[sd]?|title card|lower third|headline|(text|words?|sign|banner|label|letters?|writing)\s+(that\s+)?(reads?|says?|saying|reading|spelling))\b|\b(reads?|says?|saying|spelling out|with the words?)\s*[:"“'‘]/i;
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const requestsOnScreenText = (prompt: string) => ON_SCREEN_TEXT.test(prompt);
+
+export const hasErrors = (issues: ScriptIssue[]) => issues.some(issue => issue.severity === 'error');
+
+export const describeIssue = (issue: ScriptIssue) =>
+  issue.sceneIndex !== undefined ? `Scene ${issue.sceneIndex + 1}: ${issue.message}` : issue.message;
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Dialogue scenes are flattened to "Speaker: line" rows, the format the multi-speaker TTS expects
+const toNarration = (scene: RawScene) =>
+  Array.isArray(scene.lines)
+    ? scene.lines
+        .filter(line => asText(line?.text))
+        .map(line => `${asText(line.speaker)}: ${asText(line.text)}`)
+        .join('\n')
+    : asText(scene.narration);
+
+// Drops the sentences of a visual prompt that ask for on-screen text, keeping the rest
+const stripTextRequests = (prompt: string) =>
+  prompt
+    .split(/(?<=[.!?])\s+/)
+    .filter(sentence => !requestsOnScreenText(sentence))
+    .join(' ')
+    .trim();
+
+const checkScene = (scene: DraftScene, sceneIndex: number, wordsPerScene: number, strict: boolean): ScriptIssue[] => {
+  const issues: ScriptIssue[] = [];
+  const words = countWords(scene.narration);
+  if (!words) {
+    issues.push({ severity: 'error', sceneIndex, message: 'The narration is empty.' });
+  } else if (words > wordsPerScene * WORD_LIMIT_TOLERANCE) {
+    issues.push({
+      severity: strict ? 'error' : 'warning',
+      sceneIndex,
+      message: `The narration has ${words} words; about ${wordsPerScene} fit this scene's length.`,
+    });
+  }
+  if (!scene.visualPrompt.trim()) {
+    issues.push({ severity: 'error', sceneIndex, message: 'The visual prompt is empty.' });
+  } else if (requestsOnScreenText(scene.visualPrompt)) {
+    issues.push({
+      severity: strict ? 'error' : 'warning',
+      sceneIndex,
+      message: 'The visual prompt asks for on-screen text, which image models garble. Describe the scene instead.',
+    });
+  }
+  return issues;
+};
+
+const checkSpeakers = (scene: RawScene, sceneIndex: number, voice: VoiceSettings): ScriptIssue[] => {
+  if (voice.mode !== 'dialogue' || !Array.isArray(scene.lines)) return [];
+  const names = voice.speakers.map(s => s.speaker.toLowerCase());
+  const unknown = [...new Set(scene.lines.map(line => asText(line?.speaker)))]
+    .filter(speaker => !names.includes(speaker.toLowerCase()));
+  return unknown.length
+    ? [{ severity: 'error', sceneIndex, message: `Unknown speaker ${unknown.map(s => `"${s}"`).join(', ')}; only ${voice.speakers.map(s => s.speaker).join(' and ')} speak.` }]
+    : [];
+};
+
+// Model output: normalises the scenes, fixes what can be fixed without asking again (stray
+// whitespace, sentences asking for on-screen text), then reports what is still wrong.
+// With `trimExtra`, surplus scenes are dropped instead of being reported.
+export const checkModelScript = (script: RawScript, { plan, voice }: ScriptRequest, trimExtra: boolean) => {
+  const raw = (Array.isArray(script.scenes) ? script.scenes : [])
+    .filter((scene): scene is RawScene => !!scene && typeof scene === 'object');
+  const kept = trimExtra ? trimScenes(raw, plan.sceneCount) : raw;
+
+  const issues: ScriptIssue[] = [];
+  if (kept.length !== plan.sceneCount) {
+    issues.push({ severity: 'error', message: `The script has ${kept.length} scenes instead of ${plan.sceneCount}.` });
+  }
+
+  const scenes: DraftScene[] = kept.map((scene, i) => {
+    const visualPrompt = asText(scene.visual_prompt);
+    const repaired = stripTextRequests(visualPrompt);
+    issues.push(...checkSpeakers(scene, i, voice));
+    // Only keep the repair if something is left to draw
+    return { narration: toNarration(scene), visualPrompt: repaired || visualPrompt, chapter: asText(scene.chapter) || undefined };
+  });
+  scenes.forEach((scene, i) => issues.push(...checkScene(scene, i, plan.wordsPerScene, true)));
+
+  return { scenes, issues };
+};
+
+// Tells the model what to fix when asking again
+export const describeIssuesForModel = (issues: ScriptIssue[]) =>
+  `Your previous answer had these problems: ${issues.filter(i => i.severity === 'error').map(describeIssue).join(' ')} Fix them and return the complete JSON again.`;
+
+// The script as edited in the review step. Errors block asset generation.
+export const validateScript = (script: VideoScript): ScriptIssue[] => {
+  if (script.scenes.length === 0) return [{ severity: 'error', message: 'The script has no scenes.' }];
+  const plan = getScenePlan(script.targetDuration, isShortForm(script.aspectRatio));
+  return script.scenes.flatMap((scene, i) => checkScene(scene, i, plan.wordsPerScene, false));
+};
@@ -0,0 +1,143 @@
+import { AspectRatio, GeneratedVideo, SeoMetadata, VideoChapter, VideoSegment } from "../types";
+import { RawSeo } from "./providers/registry";
+import { getSegmentAudioDuration } from "./mediaUtils";
+
+// YouTube upload metadata: the planner writes titles, description, tags and hashtags with
+// the script; chapters are placed once the voiceovers exist, at the real segment start times.
+
+export const TITLE_OPTION_COUNT = 5;
+
+// YouTube's limits. Longer values are cut here rather than rejected by the upload form.
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_TAGS_LENGTH = 500; // all tags together
+const MAX_HASHTAGS = 15; // with more, YouTube ignores every hashtag
+
+// YouTube only shows chapters when there are three or more, the first at 0:00, each 10s or longer
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 10;
+const MIN_CHAPTERED_DURATION = 180; // seconds; shorter videos are too short to navigate
+const SECONDS_PER_CHAPTER = 60;
+const MAX_CHAPTERS = 8;
+
+export const wantsChapters = (aspectRatio: AspectRatio, targetDuration: number) =>
+  aspectRatio === AspectRatio.LANDSCAPE && targetDuration >= MIN_CHAPTERED_DURATION;
+
+export const getChapterCount = (targetDuration: number) =>
+  Math.min(Math.max(Math.round(targetDuration / SECONDS_PER_CHAPTER), MIN_CHAPTERS), MAX_CHAPTERS);
+
+const asList = (value: unknown) =>
+  (Array.isArray(value) ? value : []).filter((item): item is string => typeof item === 'string');
+
+const unique = (items: string[]) =>
+  items.filter((item, i) => item && items.findIndex(other => other.toLowerCase() === item.toLowerCase()) === i);
+
+// Tags fill up to the shared length limit; YouTube counts the separating commas too
+const limitTags = (tags: string[]) => {
+  let length = 0;
+  return tags.filter(tag => {
+    length += tag.length + 1;
+    return length - 1 <= MAX_TAGS_LENGTH;
+  });
+};
+
+// Model output or hand edits, cleaned up to what YouTube accepts. Without any title the
+// topic is the only option.
+export const normalizeSeo = (raw: RawSeo | undefined, topic: string): Omit<SeoMetadata, 'chapters'> => {
+  const titles = unique(asList(raw?.titles).map(title => title.trim().slice(0, MAX_TITLE_LENGTH)));
+  return {
+    titles: titles.length ? titles : [topic.trim().slice(0, MAX_TITLE_LENGTH)],
+    description: (typeof raw?.description === 'string' ? raw.description.trim() : '').slice(0, MAX_DESCRIPTION_LENGTH),
+    tags: limitTags(unique(asList(raw?.tags).map(tag => tag.trim().replace(/^#/, '').replace(/[<>,]/g, '').trim()))),
+    hashtags: unique(asList(raw?.hashtags).map(tag => tag.replace(/[^\p{L}\p{N}_]/gu, '')))
+      .slice(0, MAX_HASHTAGS)
+      .map(tag => `#${tag}`),
+  };
+};
+
+// Segments start a chapter when their heading changes; segments without one continue the
+// chapter before. Chapters that would be too short lose their marker to the one before, and
+// the first always starts at 0:00. Empty until every segment has its voiceover.
+export const buildChapters = (segments: VideoSegment[]): VideoChapter[] => {
+  if (segments.some(segment => !segment.audioData)) return [];
+  const chapters: VideoChapter[] = [];
+  let start = 0;
+  segments.forEach(segment => {
+    const title = segment.chapter?.trim();
+    if (title && title !== chapters[chapters.length - 1]?.title) {
+      chapters.push({ start: chapters.length ? start : 0, title });
+    }
+    start += getSegmentAudioDuration(segment);
+  });
+
+  const kept: VideoChapter[] = [];
+  chapters.forEach(chapter => {
+    const previous = kept[kept.length - 1];
+    if (!previous || chapter.start - previous.start >= MIN_CHAPTER_SECONDS) kept.push(chapter);
+  });
+  if (kept.length > 1 && start - kept[kept.length - 1].start < MIN_CHAPTER_SECONDS) kept.pop();
+  return kept.length >= MIN_CHAPTERS ? kept : [];
+};
+
+// Recomputes the chapters from the current segments, e.g. after new voiceovers or a reorder
+export const refreshChapters = (video: GeneratedVideo): GeneratedVideo =>
+  video.seo && video.segments.some(segment => segment.chapter)
+    ? { ...video, seo: { ...video.seo, chapters: buildChapters(video.segments) } }
+    : video;
+
+// 0:00, 1:05, 1:02:03: the format YouTube reads chapters from
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// What goes into YouTube's description box: the description, chapters and hashtags. The
+// length limit covers all of it, so the description is shortened to make room for the rest.
+export const buildYouTubeDescription = (seo: SeoMetadata) => {
+  const extras = [
+    (seo.chapters || []).map(chapter => `${formatTimestamp(chapter.start)} ${chapter.title}`).join('\n'),
+    seo.hashtags.join(' '),
+  ].filter(Boolean);
+  const room = MAX_DESCRIPTION_LENGTH - extras.reduce((length, part) => length + part.length + 2, 0);
+  const description = seo.description.slice(0, Math.max(room, 0)).trim();
+  return [description, ...extras].filter(Boolean).join('\n\n').slice(0, MAX_DESCRIPTION_LENGTH);
+};
+
+// The stored metadata, cleaned up and with chapters for the current segments
+export const getSeoMetadata = (video: GeneratedVideo): SeoMetadata | null => {
+  const refreshed = refreshChapters(video).seo;
+  return refreshed ? { ...refreshed, ...normalizeSeo(refreshed, video.topic) } : null;
+};
+
+export const exportSeoText = (seo: SeoMetadata) =>
+  new Blob(
+    [
+      [
+        'TITLE OPTIONS',
+        seo.titles.map((title, i) => `${i + 1}. ${title}`).join('\n'),
+        'DESCRIPTION',
+        buildYouTubeDescription(seo),
+        'TAGS',
+        seo.tags.join(', '),
+      ].join('\n\n') + '\n',
+    ],
+    { type: 'text/plain' }
+  );
+
+export const exportSeoJson = (seo: SeoMetadata) =>
+  new Blob(
+    [
+      JSON.stringify({
+        title: seo.titles[0],
+        titles: seo.titles,
+        description: buildYouTubeDescription(seo),
+        tags: seo.tags,
+        hashtags: seo.hashtags,
+        chapters: (seo.chapters || []).map(chapter => ({ ...chapter, timestamp: formatTimestamp(chapter.start) })),
+      }, null, 2),
+    ],
+    { type: 'application/json' }
+  );
@@ -0,0 +1,71 @@
+import { GeneratedVideo, ReferenceImage, StyleBible, VideoSegment } from "../types";
+import { blobToBase64, getImageMimeType, isVideoClip } from "./mediaUtils";
+import { GeneratedAsset } from "./providers";
+
+// Visual consistency across scenes: the planner's style bible is folded into every image
+// prompt, and reference images (uploaded, plus optionally scene 1's image) go along as
+// image parts for backends that accept them.
+
+export const EMPTY_STYLE_BIBLE: StyleBible = { characters: '', setting: '', palette: '', camera: '' };
+
+export const STYLE_BIBLE_FIELDS: { id: keyof StyleBible; label: string; placeholder: string }[] = [
+  { id: 'characters', label: 'Characters', placeholder: 'e.g. Pip, a small orange robot with one round blue eye' },
+  { id: 'setting', label: 'Setting', placeholder: 'e.g. a cluttered 1970s science lab' },
+  { id: 'palette', label: 'Palette', placeholder: 'e.g. warm oranges and teal, muted shadows' },
+  { id: 'camera', label: 'Camera', placeholder: 'e.g. 35mm, shallow depth of field, soft window light' },
+];
+
+// Requests with many large images are slow and hit payload limits
+export const MAX_REFERENCE_IMAGES = 3;
+const MAX_REFERENCE_BYTES = 8 * 1024 * 1024;
+
+// Planner output may leave fields out or send "none"
+export const normalizeStyleBible = (raw?: Partial<Record<keyof StyleBible, unknown>>): StyleBible => {
+  const field = (value: unknown) => {
+    const text = typeof value === 'string' ? value.trim() : '';
+    return /^(none|n\/a|-)$/i.test(text) ? '' : text;
+  };
+  return {
+    characters: field(raw?.characters),
+    setting: field(raw?.setting),
+    palette: field(raw?.palette),
+    camera: field(raw?.camera),
+  };
+};
+
+export const describeStyleBible = (bible?: StyleBible) => {
+  if (!bible) return '';
+  return STYLE_BIBLE_FIELDS
+    .filter(field => bible[field.id].trim())
+    .map(field => `${field.label}: ${bible[field.id].trim()}`)
+    .join('. ');
+};
+
+// Scene 1's active image, once it exists and matches its prompt. Clips can't be sent.
+const getAnchorImage = (segments: VideoSegment[]): GeneratedAsset | null => {
+  const first = segments[0];
+  if (!first?.imageData || first.imageStale || isVideoClip(first.imageMimeType)) return null;
+  return { data: first.imageData, mimeType: getImageMimeType(first) };
+};
+
+export const getReferenceImages = (
+  video: Pick<GeneratedVideo, 'referenceImages' | 'useFirstImageAsReference'>,
+  segments: VideoSegment[],
+  sceneIndex: number
+): GeneratedAsset[] => {
+  const references: GeneratedAsset[] = (video.referenceImages || []).map(({ data, mimeType }) => ({ data, mimeType }));
+  const anchor = video.useFirstImageAsReference && sceneIndex > 0 ? getAnchorImage(segments) : null;
+  if (anchor) references.push(anchor);
+  return references.slice(0, MAX_REFERENCE_IMAGES);
+};
+
+export const createReferenceImage = async (file: File): Promise<ReferenceImage> => {
+  if (!file.type.startsWith('image/')) throw new Error(`"${file.name}" isn't an image.`);
+  if (file.size > MAX_REFERENCE_BYTES) throw new Error(`"${file.name}" is too large. Reference images can be up to 8 MB.`);
+  return {
+    id: `ref-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name: file.name,
+    mimeType: file.type,
+    data: await blobToBase64(file),
+  };
+};
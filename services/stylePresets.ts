@@ -0,0 +1,201 @@
+import { GeneratedVideo, StylePreset } from "../types";
+import { MOTION_STYLES } from "./motion";
+import { PromptVariable, renderTemplate } from "./promptTemplates";
+
+// The looks a video can be made in. The four built-ins can be edited (the edit is stored
+// under the built-in's id and can be reset); users add their own by duplicating one. All of
+// it lives in this browser's localStorage and moves between machines as a JSON file.
+
+const PRESETS_KEY = 'tubegen.stylePresets';
+const EXPORT_FORMAT = 'tubegen-styles';
+const EXPORT_VERSION = 1;
+
+const DEFAULT_NEGATIVE_PROMPT = 'text, letters, watermark, logo';
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'documentary',
+    name: 'Documentary',
+    description: 'Educational, calm, detailed',
+    tone: 'Calm, curious and precise, like a nature or history documentary. Explain clearly and let facts carry the interest.',
+    imagePromptTemplate: '{scene}. {consistency}. Documentary photograph, natural lighting, 8k, photorealistic',
+    negativePrompt: DEFAULT_NEGATIVE_PROMPT,
+    motion: 'documentary',
+  },
+  {
+    id: 'hype',
+    name: 'Hype / Viral',
+    description: 'Fast paced, energetic, bold',
+    tone: 'High energy and punchy. Open with a hook, keep sentences short, and build to a payoff.',
+    imagePromptTemplate: '{scene}. {consistency}. Bold saturated colours, dynamic angle, 8k, photorealistic, cinematic lighting',
+    negativePrompt: DEFAULT_NEGATIVE_PROMPT,
+    motion: 'hype',
+  },
+  {
+    id: 'cinematic',
+    name: 'Cinematic',
+    description: 'Dramatic, moody, movie-like',
+    tone: 'Dramatic and atmospheric, like a film trailer. Build tension and use vivid imagery.',
+    imagePromptTemplate: '{scene}. {consistency}. Cinematic film still, anamorphic lens, moody dramatic lighting, 8k, photorealistic',
+    negativePrompt: DEFAULT_NEGATIVE_PROMPT,
+    motion: 'cinematic',
+  },
+  {
+    id: 'minimalist',
+    name: 'Minimalist',
+    description: 'Clean, simple, modern',
+    tone: 'Clear and understated. One idea per scene, plain words, no filler.',
+    imagePromptTemplate: '{scene}. {consistency}. Minimalist flat illustration, clean geometric shapes, generous negative space, soft limited palette',
+    negativePrompt: `${DEFAULT_NEGATIVE_PROMPT}, clutter, busy background, photorealistic texture`,
+    motion: 'minimalist',
+  },
+];
+
+export const DEFAULT_STYLE_PRESET_ID = 'hype';
+
+// Preset templates write them as {scene}, not {{scene}}
+const IMAGE_TEMPLATE_VARIABLES: PromptVariable[] = [
+  { name: 'scene', type: 'inline', description: "the scene's visual prompt" },
+  { name: 'consistency', type: 'inline', optional: true, description: 'style bible and reference image notes' },
+  { name: 'style', type: 'inline', optional: true, description: 'the preset name' },
+];
+
+export const IMAGE_TEMPLATE_PLACEHOLDERS = IMAGE_TEMPLATE_VARIABLES.map(v => ({ key: `{${v.name}}`, desc: v.description }));
+
+export const isBuiltInPreset = (id: string) => BUILT_IN_STYLE_PRESETS.some(p => p.id === id);
+
+// Fills in a raw preset from storage or a file; null when it can't be used
+const normalizePreset = (raw: unknown): StylePreset | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  const text = (key: string) => (typeof value[key] === 'string' ? (value[key] as string) : '');
+  if (!text('id') || !text('name').trim() || !text('imagePromptTemplate').trim()) return null;
+  return {
+    id: text('id'),
+    name: text('name').trim(),
+    description: text('description'),
+    tone: text('tone'),
+    imagePromptTemplate: text('imagePromptTemplate'),
+    negativePrompt: text('negativePrompt'),
+    motion: MOTION_STYLES.includes(text('motion')) ? text('motion') : 'documentary',
+    voice: value.voice as StylePreset['voice'],
+    captionStyle: value.captionStyle as StylePreset['captionStyle'],
+  };
+};
+
+const readStored = (): StylePreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(normalizePreset).filter((p): p is StylePreset => !!p) : [];
+  } catch {
+    return []; // corrupt entry: only the built-ins
+  }
+};
+
+const writeStored = (presets: StylePreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Built-ins first (with any edits), then the user's own in the order they were made
+export const getStylePresets = (): StylePreset[] => {
+  const stored = readStored();
+  return [
+    ...BUILT_IN_STYLE_PRESETS.map(preset => stored.find(s => s.id === preset.id) || preset),
+    ...stored.filter(preset => !isBuiltInPreset(preset.id)),
+  ];
+};
+
+export const getStylePreset = (id: string) =>
+  getStylePresets().find(preset => preset.id === id) || BUILT_IN_STYLE_PRESETS[0];
+
+// Accepts an id or a name, in any case ("Hype / Viral", "hype")
+export const findStylePreset = (value: string) => {
+  const key = value.trim().toLowerCase();
+  return getStylePresets().find(preset => preset.id === key || preset.name.toLowerCase() === key);
+};
+
+// The copy saved with the project; older saves fall back to the preset with their style id
+export const resolveStylePreset = (video: Pick<GeneratedVideo, 'style' | 'stylePreset'>) =>
+  video.stylePreset || getStylePreset(video.style);
+
+export const isPresetEdited = (id: string) => isBuiltInPreset(id) && readStored().some(p => p.id === id);
+
+export const saveStylePreset = (preset: StylePreset) => {
+  const stored = readStored();
+  const index = stored.findIndex(p => p.id === preset.id);
+  writeStored(index >= 0 ? stored.map((p, i) => (i === index ? preset : p)) : [...stored, preset]);
+};
+
+// Removes a custom preset; a built-in goes back to its defaults
+export const deleteStylePreset = (id: string) => {
+  writeStored(readStored().filter(p => p.id !== id));
+};
+
+export const duplicateStylePreset = (preset: StylePreset): StylePreset => {
+  const copy = { ...preset, id: `style-${Date.now()}`, name: `${preset.name} (copy)` };
+  saveStylePreset(copy);
+  return copy;
+};
+
+// --- Image prompts ---
+
+// The preset's template in the prompt template syntax. A placeholder and the separator next
+// to it become an optional group, so an empty value doesn't leave ". ." behind; the text
+// around it is kept as written. A template without {scene} still gets the scene, in front.
+const toPromptTemplateText = (template: string) =>
+  (template.includes('{scene}') ? template : `{scene}. ${template}`).replace(
+    /([.,]\s*)?\{(scene|consistency|style)\}([.,]\s*)?/g,
+    (_, before = '', name: string, after = '') =>
+      after ? `${before}[[{{${name}}}${after}]]` : `[[${before}{{${name}}}]]`
+  );
+
+export const renderImagePrompt = (preset: StylePreset, scene: string, consistency: string) =>
+  renderTemplate(
+    {
+      id: `style:${preset.id}`,
+      version: '1', // presets aren't versioned; the run log records the preset id
+      text: toPromptTemplateText(preset.imagePromptTemplate),
+      variables: IMAGE_TEMPLATE_VARIABLES,
+    },
+    { scene, consistency, style: preset.name }
+  ).text;
+
+// --- Import / export ---
+
+export const exportStylePresets = (presets: StylePreset[]) =>
+  new Blob(
+    [JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, presets }, null, 2)],
+    { type: 'application/json' }
+  );
+
+interface StyleFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  presets: unknown[];
+}
+
+const isStyleFile = (value: unknown): value is StyleFile => {
+  if (!value || typeof value !== 'object') return false;
+  const file = value as Record<string, unknown>;
+  return file.format === EXPORT_FORMAT && typeof file.version === 'number' && Array.isArray(file.presets);
+};
+
+// Presets with an id that already exists replace it; that is how edits to a built-in travel
+export const importStylePresets = async (file: File): Promise<StylePreset[]> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`Can't import styles: "${file.name}" is not valid JSON.`);
+  }
+  if (!isStyleFile(parsed)) {
+    throw new Error(`Can't import styles: "${file.name}" isn't a TubeGen style file.`);
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    throw new Error("Can't import styles: the file was made by a newer version of TubeGen.");
+  }
+  const presets = parsed.presets.map(normalizePreset).filter((p): p is StylePreset => !!p);
+  if (presets.length === 0) throw new Error("Can't import styles: the file has no usable presets.");
+  presets.forEach(saveStylePreset);
+  return presets;
+};
@@ -0,0 +1,85 @@
+import { AssetTake, VideoSegment } from "../types";
+
+// Helpers for a segment's take history. imageData/audioData (and their MIME types) always
+// mirror the active take so the player and exporter never need to know takes exist.
+
+export const createTake = (data: string, source: string): AssetTake => ({
+  id: `take-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  data,
+  source,
+  createdAt: Date.now(),
+});
+
+export const getActiveImageTake = (segment: VideoSegment) =>
+  segment.imageTakes.find(t => t.id === segment.activeImageTakeId);
+
+export const getActiveAudioTake = (segment: VideoSegment) =>
+  segment.audioTakes.find(t => t.id === segment.activeAudioTakeId);
+
+// Everything about a take besides its data and source
+export type TakeDetails = Partial<Pick<AssetTake, 'mimeType' | 'origin' | 'duration' | 'wordTimings'>>;
+
+// Appends a freshly generated or uploaded visual and makes it the active one
+export const addImageTake = (
+  segment: VideoSegment,
+  data: string,
+  prompt: string,
+  details: TakeDetails = {}
+): VideoSegment => {
+  const take: AssetTake = { ...createTake(data, prompt), ...details };
+  return {
+    ...segment,
+    imageTakes: [...segment.imageTakes, take],
+    activeImageTakeId: take.id,
+    imageData: data,
+    imageMimeType: take.mimeType,
+    imageStale: prompt !== segment.imagePrompt,
+  };
+};
+
+// Appends a freshly generated, uploaded or recorded voiceover and makes it the active one
+export const addAudioTake = (
+  segment: VideoSegment,
+  data: string,
+  text: string,
+  details: TakeDetails = {}
+): VideoSegment => {
+  const take: AssetTake = { ...createTake(data, text), ...details };
+  return {
+    ...segment,
+    audioTakes: [...segment.audioTakes, take],
+    activeAudioTakeId: take.id,
+    audioData: data,
+    audioMimeType: take.mimeType,
+    wordTimings: take.wordTimings,
+    duration: take.duration ?? segment.duration,
+    audioStale: text !== segment.text,
+  };
+};
+
+// Picking an older take flags the segment stale if it was made from a different prompt/narration
+export const selectImageTake = (segment: VideoSegment, takeId: string): VideoSegment => {
+  const take = segment.imageTakes.find(t => t.id === takeId);
+  if (!take) return segment;
+  return {
+    ...segment,
+    activeImageTakeId: take.id,
+    imageData: take.data,
+    imageMimeType: take.mimeType,
+    imageStale: take.source !== segment.imagePrompt,
+  };
+};
+
+export const selectAudioTake = (segment: VideoSegment, takeId: string): VideoSegment => {
+  const take = segment.audioTakes.find(t => t.id === takeId);
+  if (!take) return segment;
+  return {
+    ...segment,
+    activeAudioTakeId: take.id,
+    audioData: take.data,
+    audioMimeType: take.mimeType,
+    wordTimings: take.wordTimings,
+    duration: take.duration ?? segment.duration,
+    audioStale: take.source !== segment.text,
+  };
+};
@@ -0,0 +1,115 @@
+import { WordTiming } from "../types";
+import { blobToBase64, decodeAudioFile } from "./mediaUtils";
+import { loadClip, releaseVisuals } from "./clips";
+import { estimateWordTimings } from "./captions";
+
+// Bring-your-own media: user images, video clips, audio files and microphone recordings,
+// validated up front so a file the browser can't play never replaces a working take.
+
+const MB = 1024 * 1024;
+const MAX_IMAGE_BYTES = 20 * MB;
+const MAX_CLIP_BYTES = 100 * MB;
+const MAX_AUDIO_BYTES = 50 * MB;
+
+export interface ImportedMedia {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface ImportedAudio extends ImportedMedia {
+  duration: number;
+  wordTimings: WordTiming[];
+}
+
+const checkSize = (blob: Blob, limit: number, what: string) => {
+  if (blob.size > limit) {
+    throw new Error(`That ${what} is too large (${Math.round(blob.size / MB)} MB). The limit is ${limit / MB} MB.`);
+  }
+};
+
+export const importVisualFile = async (file: File): Promise<ImportedMedia> => {
+  const isClip = file.type.startsWith('video/');
+  if (!isClip && !file.type.startsWith('image/')) {
+    throw new Error(`"${file.name}" isn't an image or video file.`);
+  }
+  checkSize(file, isClip ? MAX_CLIP_BYTES : MAX_IMAGE_BYTES, isClip ? 'clip' : 'image');
+
+  try {
+    if (isClip) {
+      releaseVisuals([await loadClip(file)]);
+    } else {
+      (await createImageBitmap(file)).close();
+    }
+  } catch (err) {
+    console.error(err);
+    throw new Error(`Your browser can't display "${file.name}". Try a JPEG/PNG image or an MP4/WebM clip.`);
+  }
+
+  return { data: await blobToBase64(file), mimeType: file.type };
+};
+
+// Works for uploaded files and recordings alike. Word timings come from the decoded waveform,
+// exactly like generated voiceovers.
+export const importAudio = async (blob: Blob, captionText: string): Promise<ImportedAudio> => {
+  checkSize(blob, MAX_AUDIO_BYTES, 'audio file');
+  const data = await blobToBase64(blob);
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioFile(data, new OfflineAudioContext(1, 1, 48000));
+  } catch (err) {
+    console.error(err);
+    throw new Error("Couldn't decode that audio. Try a WAV, MP3 or OGG file.");
+  }
+
+  return {
+    data,
+    mimeType: blob.type || 'audio/mpeg',
+    duration: buffer.duration,
+    wordTimings: estimateWordTimings(buffer.getChannelData(0), buffer.sampleRate, captionText),
+  };
+};
+
+export interface Recording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export const startRecording = async (): Promise<Recording> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new Error("This browser can't record audio.");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+  } catch (err) {
+    console.error(err);
+    throw new Error("Microphone access was denied. Allow it in your browser's site settings to record.");
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+      else release();
+    },
+  };
+};
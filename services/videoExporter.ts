@@ -0,0 +1,218 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer";
+import { Muxer as MP4Muxer, ArrayBufferTarget as MP4Target } from "mp4-muxer";
+import { AspectRatio, GeneratedVideo } from "../types";
+import { LoadedAssets, loadVideoAssets } from "./mediaUtils";
+import { Timeline, buildTimeline, drawFrame, locateTime } from "./videoRenderer";
+import { scheduleMix } from "./audioMix";
+import { SegmentVisual, clipTimeAt, isClip, releaseVisuals, seekClip } from "./clips";
+import { getFrameSize } from "./aspectRatios";
+
+export type ExportFormat = 'webm' | 'mp4';
+export type ExportResolution = '720p' | '1080p';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  resolution: ExportResolution;
+  fps?: number;
+  signal?: AbortSignal;
+  onProgress?: (percent: number) => void;
+}
+
+const EXPORT_SAMPLE_RATE = 48000; // Opus only accepts 48kHz, AAC is happy with it too
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms of audio per AudioData
+
+const CODECS = {
+  webm: {
+    video: { encoder: 'vp09.00.40.08', muxer: 'V_VP9' },
+    audio: { encoder: 'opus', muxer: 'A_OPUS' },
+    mimeType: 'video/webm',
+  },
+  mp4: {
+    video: { encoder: 'avc1.640028', muxer: 'avc' },
+    audio: { encoder: 'mp4a.40.2', muxer: 'aac' },
+    mimeType: 'video/mp4',
+  },
+} as const;
+
+export const getExportDimensions = (aspectRatio: AspectRatio, resolution: ExportResolution) =>
+  getFrameSize(aspectRatio, resolution === '1080p' ? 1080 : 720);
+
+// A render in another format than the project's own gets the ratio in its name
+// ("topic-9x16.webm"), so re-exports for other platforms don't overwrite each other
+export const getExportFileName = (video: GeneratedVideo, extension: string, aspectRatio = video.aspectRatio) => {
+  const slug = video.topic
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  const ratio = aspectRatio !== video.aspectRatio ? `-${aspectRatio.replace(':', 'x')}` : '';
+  return `${slug || 'tubegen-video'}${ratio}.${extension}`;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+};
+
+// Keeps memory bounded: don't queue more frames than the encoder can chew through
+const waitForEncoder = async (encoder: VideoEncoder | AudioEncoder, maxQueue: number) => {
+  while (encoder.encodeQueueSize > maxQueue) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+};
+
+// Steps clip visuals to the exact frame being rendered: the current segment's clip plus the
+// neighbours a transition may draw (the previous one at its end, the next at its start)
+const positionClips = async (visuals: SegmentVisual[], timeline: Timeline, index: number, elapsed: number) => {
+  const targets: [number, number][] = [[index, elapsed], [index - 1, timeline.durations[index - 1]], [index + 1, 0]];
+  for (const [i, time] of targets) {
+    const visual = visuals[i];
+    if (visual && isClip(visual)) await seekClip(visual, clipTimeAt(visual, time));
+  }
+};
+
+// Renders narration and music through the same graph the player uses
+const renderMixdown = async (video: GeneratedVideo, assets: LoadedAssets, timeline: Timeline) => {
+  const length = Math.max(Math.ceil(timeline.total * EXPORT_SAMPLE_RATE), 1);
+  const offline = new OfflineAudioContext(1, length, EXPORT_SAMPLE_RATE);
+  scheduleMix(offline, offline.destination, video, assets.audioBuffers, assets.music, timeline, 0);
+  return offline.startRendering();
+};
+
+// Renders the SmartPlayer composition frame by frame at a fixed frame rate and muxes it
+// with the narration. Nothing here depends on wall-clock time, so repeated exports of the
+// same project produce the same file regardless of tab focus or machine speed.
+export const exportVideo = async (video: GeneratedVideo, options: ExportOptions): Promise<Blob> => {
+  const { format, resolution, fps = 30, signal, onProgress } = options;
+
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new Error("This browser can't encode video. Please use a recent version of Chrome or Edge.");
+  }
+
+  const codecs = CODECS[format];
+  const { width, height } = getExportDimensions(video.aspectRatio, resolution);
+
+  const videoConfig: VideoEncoderConfig = {
+    codec: codecs.video.encoder,
+    width,
+    height,
+    bitrate: resolution === '1080p' ? 8_000_000 : 5_000_000,
+    framerate: fps,
+  };
+  const audioConfig: AudioEncoderConfig = {
+    codec: codecs.audio.encoder,
+    sampleRate: EXPORT_SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitrate: 128_000,
+  };
+
+  const [videoSupport, audioSupport] = await Promise.all([
+    VideoEncoder.isConfigSupported(videoConfig),
+    AudioEncoder.isConfigSupported(audioConfig),
+  ]);
+  if (!videoSupport.supported || !audioSupport.supported) {
+    throw new Error(`${format.toUpperCase()} export is not supported in this browser. Try the other format.`);
+  }
+
+  // 1. Decode assets (0-10%)
+  const decodeCtx = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+  const assets = await loadVideoAssets(video, decodeCtx, (pct) => onProgress?.(pct * 0.1));
+  const { audioBuffers, images } = assets;
+  try {
+    throwIfAborted(signal);
+
+    const timeline = buildTimeline(audioBuffers.map(b => b.duration));
+    const mixdown = await renderMixdown(video, assets, timeline);
+    throwIfAborted(signal);
+
+    // 2. Set up muxer + encoders
+    const muxer = format === 'webm'
+      ? new WebMMuxer({
+          target: new WebMTarget(),
+          video: { codec: codecs.video.muxer, width, height, frameRate: fps },
+          audio: { codec: codecs.audio.muxer, numberOfChannels: 1, sampleRate: EXPORT_SAMPLE_RATE },
+        })
+      : new MP4Muxer({
+          target: new MP4Target(),
+          video: { codec: CODECS.mp4.video.muxer, width, height, frameRate: fps },
+          audio: { codec: CODECS.mp4.audio.muxer, numberOfChannels: 1, sampleRate: EXPORT_SAMPLE_RATE },
+          fastStart: 'in-memory',
+        });
+
+    let encoderError: Error | null = null;
+    const videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => { encoderError = e; },
+    });
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (e) => { encoderError = e; },
+    });
+    videoEncoder.configure(videoConfig);
+    audioEncoder.configure(audioConfig);
+
+    try {
+      // 3. Audio (10-15%)
+      const samples = mixdown.getChannelData(0);
+      for (let offset = 0; offset < samples.length; offset += AUDIO_CHUNK_FRAMES) {
+        const frames = samples.subarray(offset, Math.min(offset + AUDIO_CHUNK_FRAMES, samples.length));
+        const data = new AudioData({
+          format: 'f32-planar',
+          sampleRate: EXPORT_SAMPLE_RATE,
+          numberOfFrames: frames.length,
+          numberOfChannels: 1,
+          timestamp: Math.round((offset / EXPORT_SAMPLE_RATE) * 1e6),
+          data: frames.slice(),
+        });
+        audioEncoder.encode(data);
+        data.close();
+        await waitForEncoder(audioEncoder, 16);
+        if (encoderError) throw encoderError;
+      }
+      onProgress?.(15);
+
+      // 4. Video frames (15-100%)
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Could not create a canvas to render the video.");
+
+      const totalFrames = Math.max(Math.ceil(timeline.total * fps), 1);
+      const frameDuration = Math.round(1e6 / fps);
+
+      for (let i = 0; i < totalFrames; i++) {
+        throwIfAborted(signal);
+
+        const time = i / fps;
+        const { index, elapsed } = locateTime(timeline, time);
+        await positionClips(images, timeline, index, elapsed);
+        drawFrame(ctx, width, height, video, images, {
+          segmentIndex: index,
+          segmentTime: elapsed,
+          segmentDuration: timeline.durations[index] || 1,
+          totalProgress: timeline.total > 0 ? time / timeline.total : 0,
+        });
+
+        const frame = new VideoFrame(canvas, { timestamp: i * frameDuration, duration: frameDuration });
+        videoEncoder.encode(frame, { keyFrame: i % (fps * 2) === 0 });
+        frame.close();
+
+        await waitForEncoder(videoEncoder, 8);
+        if (encoderError) throw encoderError;
+        onProgress?.(15 + Math.round(((i + 1) / totalFrames) * 85));
+      }
+
+      await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+      if (encoderError) throw encoderError;
+
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: codecs.mimeType });
+    } finally {
+      if (videoEncoder.state !== 'closed') videoEncoder.close();
+      if (audioEncoder.state !== 'closed') audioEncoder.close();
+    }
+  } finally {
+    // Every exit, cancellation included, frees the decoded images and clip elements
+    releaseVisuals(images);
+  }
+};
@@ -0,0 +1,297 @@
+import { GeneratedVideo, SegmentMotion, TransitionType } from "../types";
+import { buildCaptionChunks, getSegmentWordTimings } from "./captions";
+import { getCaptionFontSize, getCaptionStyle } from "./captionStyles";
+import { getMotionTransform, getSegmentMotion, getSegmentTransition } from "./motion";
+import { SegmentVisual, getVisualSize } from "./clips";
+import { getCropZoom } from "./aspectRatios";
+
+// Shared by the live player (<canvas>) and the offline exporter (OffscreenCanvas)
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface Timeline {
+  starts: number[]; // segment start times in seconds
+  durations: number[]; // segment durations in seconds
+  total: number;
+}
+
+export const buildTimeline = (durations: number[]): Timeline => {
+  const starts: number[] = [];
+  let total = 0;
+  for (const d of durations) {
+    starts.push(total);
+    total += d;
+  }
+  return { starts, durations, total };
+};
+
+// Maps a global time (seconds) to the segment playing at that moment
+export const locateTime = (timeline: Timeline, time: number) => {
+  let index = 0;
+  while (index < timeline.starts.length - 1 && time >= timeline.starts[index + 1]) {
+    index++;
+  }
+  const elapsed = Math.max(time - (timeline.starts[index] || 0), 0);
+  return { index, elapsed };
+};
+
+export interface FrameState {
+  segmentIndex: number;
+  segmentTime: number; // seconds since the current segment started
+  segmentDuration: number; // seconds
+  totalProgress: number; // 0..1 across the whole video
+}
+
+// Cover-fits one segment's image (or the current frame of its clip) around its focal point and
+// applies its camera move
+const drawSegmentImage = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  img: SegmentVisual | undefined,
+  motion: SegmentMotion,
+  progress: number
+) => {
+  ctx.fillStyle = "#111";
+  ctx.fillRect(0, 0, width, height);
+  if (!img) return;
+  const size = getVisualSize(img);
+  if (!size.width || !size.height) return;
+
+  ctx.save();
+
+  const imgRatio = size.width / size.height;
+  const canvasRatio = width / height;
+  const zoom = getCropZoom(motion);
+
+  // Same placement as CSS object-position: the focal point sits at the same relative
+  // position in the frame as in the image (see getCropRect)
+  const renderW = (imgRatio > canvasRatio ? height * imgRatio : width) * zoom;
+  const renderH = (imgRatio > canvasRatio ? height : width / imgRatio) * zoom;
+  const offsetX = (width - renderW) * motion.focusX;
+  const offsetY = (height - renderH) * motion.focusY;
+
+  // Ken Burns Effect
+  const { scale, x, y } = getMotionTransform(motion, progress, width, height);
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  ctx.translate(-x, -y);
+
+  ctx.drawImage(img, offsetX, offsetY, renderW, renderH);
+  ctx.restore();
+};
+
+// Blends two segments' images; progress runs 0 (all "from") to 1 (all "to")
+const drawTransition = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  type: TransitionType,
+  progress: number,
+  drawFrom: () => void,
+  drawTo: () => void
+) => {
+  const layer = (draw: () => void, setup: () => void) => {
+    ctx.save();
+    setup();
+    draw();
+    ctx.restore();
+  };
+  const zoomAround = (scale: number) => {
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-width / 2, -height / 2);
+  };
+  const fadeToBlack = (alpha: number) => {
+    ctx.fillStyle = `rgba(0,0,0,${alpha})`;
+    ctx.fillRect(0, 0, width, height);
+  };
+
+  switch (type) {
+    case 'crossfade':
+      drawFrom();
+      layer(drawTo, () => { ctx.globalAlpha = progress; });
+      break;
+    case 'slide':
+      layer(drawFrom, () => ctx.translate(-progress * width, 0));
+      layer(drawTo, () => ctx.translate((1 - progress) * width, 0));
+      break;
+    case 'wipe':
+      drawFrom();
+      layer(drawTo, () => {
+        ctx.beginPath();
+        ctx.rect(0, 0, progress * width, height);
+        ctx.clip();
+      });
+      break;
+    case 'zoom-through':
+      layer(drawFrom, () => zoomAround(1 + progress));
+      layer(drawTo, () => {
+        ctx.globalAlpha = progress;
+        zoomAround(1 + (1 - progress));
+      });
+      break;
+    case 'fade-to-black':
+      if (progress < 0.5) {
+        drawFrom();
+        fadeToBlack(progress * 2);
+      } else {
+        drawTo();
+        fadeToBlack((1 - progress) * 2);
+      }
+      break;
+    default:
+      (progress < 0.5 ? drawFrom : drawTo)();
+  }
+};
+
+// Draws one frame of the composition: Ken Burns image (blended with a neighbour during a
+// transition), gradient, captions, progress bar.
+// Everything is derived from the canvas size so the same frame scales to any export resolution.
+export const drawFrame = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  video: GeneratedVideo,
+  images: SegmentVisual[],
+  { segmentIndex, segmentTime, segmentDuration, totalProgress }: FrameState
+) => {
+  const segment = video.segments[segmentIndex];
+  if (!segment) return;
+  const segmentProgress = segmentDuration > 0 ? Math.min(Math.max(segmentTime / segmentDuration, 0), 1) : 0;
+
+  // 1. Background / Image. Transitions straddle the cut: the first half plays at the end of
+  // the outgoing segment and the second half at the start of the incoming one.
+  const drawSegment = (index: number, progress: number) => () =>
+    drawSegmentImage(ctx, width, height, images[index], getSegmentMotion(video.segments[index]), progress);
+
+  const incoming = getSegmentTransition(segment);
+  const next = video.segments[segmentIndex + 1];
+  const outgoing = next ? getSegmentTransition(next) : null;
+  const remaining = segmentDuration - segmentTime;
+
+  if (segmentIndex > 0 && incoming.type !== 'cut' && incoming.duration > 0 && segmentTime < incoming.duration / 2) {
+    drawTransition(ctx, width, height, incoming.type, 0.5 + segmentTime / incoming.duration,
+      drawSegment(segmentIndex - 1, 1), drawSegment(segmentIndex, segmentProgress));
+  } else if (outgoing && outgoing.type !== 'cut' && outgoing.duration > 0 && remaining < outgoing.duration / 2) {
+    drawTransition(ctx, width, height, outgoing.type, 0.5 - remaining / outgoing.duration,
+      drawSegment(segmentIndex, segmentProgress), drawSegment(segmentIndex + 1, 0));
+  } else {
+    drawSegment(segmentIndex, segmentProgress)();
+  }
+
+  // 2. Overlay Gradient
+  const gradient = ctx.createLinearGradient(0, height * 0.5, 0, height);
+  gradient.addColorStop(0, "rgba(0,0,0,0)");
+  gradient.addColorStop(0.7, "rgba(0,0,0,0.6)");
+  gradient.addColorStop(1, "rgba(0,0,0,0.9)");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, height * 0.4, width, height * 0.6);
+
+  // 3. Captions: the phrase being spoken, with the current word highlighted
+  const style = getCaptionStyle(video);
+  const chunks = buildCaptionChunks(
+    getSegmentWordTimings(video, segmentIndex, segmentDuration),
+    style.maxWordsPerLine
+  );
+  // Between phrases the previous one stays up until the next starts
+  const chunk = [...chunks].reverse().find(c => c.start <= segmentTime) || chunks[0];
+
+  if (chunk) {
+    ctx.save();
+
+    const fontSize = getCaptionFontSize(style, video.aspectRatio, width);
+    ctx.font = `${style.fontWeight} ${fontSize}px "${style.fontFamily}", system-ui, sans-serif`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.lineJoin = "round";
+
+    // Word Wrap inside the safe area, keeping each word's timing so it can be highlighted
+    const words = chunk.words.map(t => ({ ...t, label: style.uppercase ? t.word.toUpperCase() : t.word }));
+    const spaceWidth = ctx.measureText(' ').width;
+    const maxWidth = width * (1 - 2 * style.safeArea.side);
+    const lines: { words: typeof words; width: number }[] = [];
+    let line: typeof lines[number] = { words: [], width: 0 };
+
+    for (const word of words) {
+      const wordWidth = ctx.measureText(word.label).width;
+      const nextWidth = line.words.length ? line.width + spaceWidth + wordWidth : wordWidth;
+      if (nextWidth > maxWidth && line.words.length) {
+        lines.push(line);
+        line = { words: [word], width: wordWidth };
+      } else {
+        line = { words: [...line.words, word], width: nextWidth };
+      }
+    }
+    lines.push(line);
+
+    // Vertical placement within the safe area
+    const lineHeight = fontSize * 1.3;
+    const totalTextHeight = lines.length * lineHeight;
+    const blockTop = style.position === 'top'
+      ? height * style.safeArea.top
+      : style.position === 'middle'
+        ? (height - totalTextHeight) / 2
+        : height * (1 - style.safeArea.bottom) - totalTextHeight;
+    const lineY = (i: number) => blockTop + (i + 0.5) * lineHeight;
+
+    // Background box behind each line
+    if (style.boxOpacity > 0) {
+      const padX = fontSize * 0.3;
+      ctx.globalAlpha = style.boxOpacity;
+      ctx.fillStyle = style.boxColor;
+      lines.forEach((l, i) => {
+        ctx.beginPath();
+        ctx.roundRect((width - l.width) / 2 - padX, lineY(i) - lineHeight / 2, l.width + padX * 2, lineHeight, fontSize * 0.2);
+        ctx.fill();
+      });
+      ctx.globalAlpha = 1;
+    }
+
+    const eachWord = (draw: (word: typeof words[number], x: number, y: number) => void) => {
+      lines.forEach((l, i) => {
+        let x = (width - l.width) / 2;
+        for (const word of l.words) {
+          draw(word, x, lineY(i));
+          x += ctx.measureText(word.label).width + spaceWidth;
+        }
+      });
+    };
+
+    const setShadow = (on: boolean) => {
+      ctx.shadowColor = on ? "rgba(0,0,0,1)" : "transparent";
+      ctx.shadowBlur = on ? 12 : 0;
+      ctx.shadowOffsetX = on ? 2 : 0;
+      ctx.shadowOffsetY = on ? 2 : 0;
+    };
+
+    // Outlines first so they never cover a neighbouring word's fill; the shadow goes on
+    // whichever pass is drawn first
+    if (style.strokeWidth > 0) {
+      setShadow(style.shadow);
+      ctx.strokeStyle = style.strokeColor;
+      ctx.lineWidth = style.strokeWidth * fontSize * 2; // half of the stroke sits under the fill
+      eachWord((word, x, y) => ctx.strokeText(word.label, x, y));
+      setShadow(false);
+    } else {
+      setShadow(style.shadow);
+    }
+
+    eachWord((word, x, y) => {
+      const isActive = !!style.highlightColor && segmentTime >= word.start && segmentTime < word.end;
+      ctx.fillStyle = isActive ? style.highlightColor : style.color;
+      ctx.fillText(word.label, x, y);
+    });
+    ctx.restore();
+  }
+
+  // 4. Progress Bar
+  const barHeight = Math.max(Math.round(height * 0.008), 6);
+
+  // Bar container
+  ctx.fillStyle = "rgba(255,255,255,0.2)";
+  ctx.fillRect(0, height - barHeight, width, barHeight);
+
+  // Active bar
+  ctx.fillStyle = "#3b82f6"; // Blue-500
+  ctx.fillRect(0, height - barHeight, width * Math.min(Math.max(totalProgress, 0), 1), barHeight);
+};
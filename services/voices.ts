@@ -0,0 +1,82 @@
+import { GeneratedVideo, SpeakerVoice, VoiceSettings } from "../types";
+import { renderPrompt } from "./promptTemplates";
+
+// Gemini TTS prebuilt voices with the character Google describes for each
+export const VOICES = [
+  { name: 'Kore', desc: 'Firm' },
+  { name: 'Puck', desc: 'Upbeat' },
+  { name: 'Charon', desc: 'Informative' },
+  { name: 'Fenrir', desc: 'Excitable' },
+  { name: 'Zephyr', desc: 'Bright' },
+  { name: 'Aoede', desc: 'Breezy' },
+  { name: 'Leda', desc: 'Youthful' },
+  { name: 'Orus', desc: 'Firm' },
+  { name: 'Enceladus', desc: 'Breathy' },
+  { name: 'Iapetus', desc: 'Clear' },
+  { name: 'Algenib', desc: 'Gravelly' },
+  { name: 'Gacrux', desc: 'Mature' },
+  { name: 'Achird', desc: 'Friendly' },
+  { name: 'Sulafat', desc: 'Warm' },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  mode: 'single',
+  voiceName: 'Kore', // 'Kore' is usually good for narration
+  speakers: [
+    { speaker: 'Alex', voiceName: 'Puck' },
+    { speaker: 'Sam', voiceName: 'Kore' },
+  ],
+  pace: 'normal',
+  tone: '',
+};
+
+export const PREVIEW_TEXT = "Here's a quick preview of how your video will sound.";
+
+export const getVoiceSettings = (video: GeneratedVideo) => video.voice || DEFAULT_VOICE_SETTINGS;
+
+// Gemini TTS takes delivery instructions as a natural-language preamble
+export const describeDelivery = ({ pace, tone }: VoiceSettings) => {
+  const parts = [];
+  if (tone.trim()) parts.push(`in a ${tone.trim()} tone`);
+  if (pace !== 'normal') parts.push(pace === 'fast' ? 'at a brisk, fast pace' : 'at a slow, deliberate pace');
+  return parts.join(', ');
+};
+
+export const buildTtsPrompt = (text: string, voice: VoiceSettings) => {
+  const delivery = describeDelivery(voice);
+  return voice.mode === 'dialogue'
+    ? renderPrompt('speech-dialogue', { speakers: voice.speakers.map(s => s.speaker), delivery, text })
+    : renderPrompt('speech', { delivery, text });
+};
+
+// Dialogue narration is stored as "Speaker: line" rows. Captions only show the spoken words.
+export const stripSpeakerLabels = (text: string, voice?: VoiceSettings) => {
+  if (!voice || voice.mode !== 'dialogue') return text;
+  const names = voice.speakers.map(s => s.speaker.toLowerCase());
+  return text
+    .split('\n')
+    .map(line => {
+      const match = line.match(/^\s*([^:]{1,40}):\s*(.*)$/);
+      return match && names.includes(match[1].trim().toLowerCase()) ? match[2] : line;
+    })
+    .join(' ')
+    .trim();
+};
+
+// Dialogue narration as separate turns, for backends that speak one voice per request.
+// Unlabelled lines continue the previous turn.
+export const splitDialogueLines = (text: string, voice: VoiceSettings) => {
+  const turns: { speaker: SpeakerVoice; text: string }[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*([^:]{1,40}):\s*(.*)$/);
+    const speaker = match && voice.speakers.find(s => s.speaker.toLowerCase() === match[1].trim().toLowerCase());
+    const spoken = (speaker ? match[2] : line).trim();
+    if (!spoken) continue;
+    if (speaker || turns.length === 0) {
+      turns.push({ speaker: speaker || voice.speakers[0], text: spoken });
+    } else {
+      turns[turns.length - 1].text += ` ${spoken}`;
+    }
+  }
+  return turns;
+};
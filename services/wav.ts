@@ -0,0 +1,70 @@
+import { TTS_SAMPLE_RATE } from "./mediaUtils";
+
+// RIFF/WAVE wrapping for the headerless 16-bit PCM the TTS backends return, so exported
+// voiceovers open in any audio tool and come back as the same bytes on import.
+
+const HEADER_SIZE = 44;
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  pcm: Uint8Array; // the data chunk
+}
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+export const encodeWav = (pcm: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE, channels = 1) => {
+  const bytesPerSample = 2;
+  const out = new Uint8Array(HEADER_SIZE + pcm.byteLength);
+  const view = new DataView(out.buffer);
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * bytesPerSample, true); // byte rate
+  view.setUint16(32, channels * bytesPerSample, true); // block align
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  out.set(pcm, HEADER_SIZE);
+  return out;
+};
+
+// Walks the chunks rather than assuming a 44-byte header, since other tools add LIST etc.
+// Throws for anything that isn't uncompressed PCM.
+export const decodeWav = (bytes: Uint8Array): WavInfo => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WAVE') {
+    throw new Error("Not a WAV file.");
+  }
+  let format: Omit<WavInfo, 'pcm'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (view.getUint16(body, true) !== 1) throw new Error("Only uncompressed PCM WAV files are supported.");
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error("WAV file has no format chunk.");
+      return { ...format, pcm: bytes.subarray(body, Math.min(body + size, bytes.byteLength)) };
+    }
+    offset = body + size + (size % 2); // chunks are word aligned
+  }
+  throw new Error("WAV file has no audio data.");
+};
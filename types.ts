@@ -1,29 +1,254 @@
 export enum AspectRatio {
   LANDSCAPE = '16:9',
   PORTRAIT = '9:16',
+  SQUARE = '1:1',
+  PORTRAIT_4_5 = '4:5',
+}
+
+// When a caption word is spoken, in seconds from the start of its segment
+export interface WordTiming {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export type TakeOrigin = 'generated' | 'upload' | 'recording';
+
+// One version of a segment's visual or voiceover, generated or supplied by the user
+export interface AssetTake {
+  id: string;
+  data: string; // base64
+  source: string; // the prompt (image) or narration (audio) it was made for
+  createdAt: number;
+  mimeType?: string; // missing on older saves: image/jpeg for visuals, raw 24kHz PCM for audio
+  origin?: TakeOrigin; // missing = generated
+  duration?: number; // audio takes only, seconds
+  wordTimings?: WordTiming[]; // audio takes only, estimated from the waveform
+}
+
+export type TransitionType = 'cut' | 'crossfade' | 'slide' | 'wipe' | 'zoom-through' | 'fade-to-black';
+
+// How a segment takes over from the one before it. Centered on the cut, so the audio timeline is unchanged.
+export interface SegmentTransition {
+  type: TransitionType;
+  duration: number; // seconds
+}
+
+export type MotionPreset = 'static' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down';
+
+// Framing and camera move over the segment's image
+export interface SegmentMotion {
+  preset: MotionPreset;
+  // Focal point, 0..1 across the image: kept in frame when the image is cropped to the video's
+  // aspect ratio, the point zooms are anchored on and the fixed axis of a pan
+  focusX: number;
+  focusY: number;
+  cropZoom?: number; // extra zoom on top of filling the frame, 1 (or missing) = none
 }
 
 export interface VideoSegment {
   id: string;
   text: string;
   imagePrompt: string;
-  imageData: string; // base64
-  audioData: string; // base64
+  imageData: string; // base64, mirrors the active image take (an image or a video clip)
+  audioData: string; // base64, mirrors the active audio take
+  imageMimeType?: string; // mirrors the active image take
+  audioMimeType?: string; // mirrors the active audio take
   duration: number; // approximate duration in seconds
+  imageStale?: boolean; // imagePrompt was edited after imageData was generated
+  audioStale?: boolean; // text was edited after audioData was generated
+  imageTakes: AssetTake[];
+  audioTakes: AssetTake[];
+  activeImageTakeId?: string;
+  activeAudioTakeId?: string;
+  wordTimings?: WordTiming[]; // mirrors the active audio take; missing on older saves
+  transition?: SegmentTransition; // into this segment; older saves hard-cut
+  motion?: SegmentMotion; // older saves use a centered zoom-in
+  chapter?: string; // heading of the YouTube chapter this segment starts or continues
+}
+
+export type NarrationMode = 'single' | 'dialogue';
+
+export type SpeakingPace = 'slow' | 'normal' | 'fast';
+
+export interface SpeakerVoice {
+  speaker: string; // name used as the line prefix in dialogue scripts, e.g. "Alex"
+  voiceName: string; // Gemini prebuilt voice
+}
+
+export interface VoiceSettings {
+  mode: NarrationMode;
+  voiceName: string; // narrator voice in single mode
+  speakers: SpeakerVoice[]; // the two hosts in dialogue mode
+  pace: SpeakingPace;
+  tone: string; // free-form delivery instruction, e.g. "warm and enthusiastic"
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+// How burned-in captions look. Sizes are relative so one style works at any resolution.
+export interface CaptionStyle {
+  presetId: string; // preset it started from, 'custom' once edited
+  fontFamily: string;
+  fontWeight: number;
+  fontScale: number; // 1 = the default size for the aspect ratio
+  color: string;
+  highlightColor: string; // karaoke colour for the word being spoken, '' to disable
+  strokeColor: string;
+  strokeWidth: number; // outline thickness as a fraction of the font size, 0 = none
+  shadow: boolean;
+  boxColor: string;
+  boxOpacity: number; // background box behind each line, 0 = none
+  position: CaptionPosition;
+  uppercase: boolean;
+  maxWordsPerLine: number;
+  safeArea: { top: number; bottom: number; side: number }; // fractions of the frame kept clear of platform UI
+}
+
+// Uploaded background music, mixed under the narration in playback and export
+export interface MusicTrack {
+  name: string; // original file name
+  mimeType: string;
+  data: string; // base64 of the uploaded file
+  volume: number; // 0..1
+  duckLevel: number; // share of the volume kept while narration is speaking, 0..1
+  trimStart: number; // seconds into the file where the music starts
+  trimEnd: number; // seconds into the file where it stops, 0 = end of file
+  loop: boolean; // repeat the trimmed region until the video ends
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+}
+
+// Shared look written by the planner and repeated in every image prompt, so recurring
+// characters, places and colours stay the same from scene to scene
+export interface StyleBible {
+  characters: string; // recurring characters/mascots and their fixed visual traits
+  setting: string;
+  palette: string;
+  camera: string; // lenses, framing and lighting
+}
+
+// A look for a whole video: how the script is written and how its images are prompted.
+// Built-in presets can be edited; every project keeps a copy of the preset it was made with.
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  tone: string; // instruction for the script writer
+  imagePromptTemplate: string; // {scene}, {consistency} and {style} are filled in per image
+  negativePrompt: string; // what images should avoid
+  motion: string; // camera moves and transitions, one of the built-in style ids
+  voice?: VoiceSettings; // applied when the preset is picked
+  captionStyle?: CaptionStyle;
 }
 
+// A YouTube chapter marker, placed at the start time of a segment
+export interface VideoChapter {
+  start: number; // seconds
+  title: string;
+}
+
+// YouTube upload metadata, written by the planner along with the script
+export interface SeoMetadata {
+  titles: string[]; // options, best first
+  description: string;
+  tags: string[];
+  hashtags: string[]; // with the leading #
+  chapters?: VideoChapter[]; // long 16:9 videos, once every segment has its voiceover
+}
+
+// User-supplied image sent along with every image prompt
+export interface ReferenceImage {
+  id: string;
+  name: string; // original file name
+  mimeType: string;
+  data: string; // base64
+}
+
+export type ProviderKind = 'script' | 'image' | 'tts';
+
+// A backend (see services/providers) and the model to ask for
+export interface ProviderSelection {
+  providerId: string;
+  model: string;
+}
+
+// Which backend writes the script, draws the visuals and speaks the narration
+export type ProviderSettings = Record<ProviderKind, ProviderSelection>;
+
+// Bump whenever the persisted shape of GeneratedVideo changes and add a migration step
+// in services/projectStore.ts
+export const VIDEO_SCHEMA_VERSION = 2;
+
 export interface GeneratedVideo {
   id: string;
+  schemaVersion: number;
+  title?: string; // user-facing name, falls back to topic
   topic: string;
-  style: string;
+  style: string; // style preset id
+  stylePreset?: StylePreset; // older saves only have the id of a built-in style
   aspectRatio: AspectRatio;
+  targetDuration?: number; // seconds the script was planned for
+  voice?: VoiceSettings; // older saves without it used the default narrator
+  captionStyle?: CaptionStyle; // older saves without it use the default look for their aspect ratio
+  music?: MusicTrack;
+  providers?: ProviderSettings; // older saves were made with the default Gemini models
+  styleBible?: StyleBible; // older saves have none
+  referenceImages?: ReferenceImage[];
+  useFirstImageAsReference?: boolean; // send scene 1's image as a reference for the others
+  seo?: SeoMetadata; // older saves have none
   segments: VideoSegment[];
   timestamp: number;
+  updatedAt?: number;
+}
+
+// Output of the planning phase, reviewed/edited before any image or TTS quota is spent
+export interface ScriptScene {
+  id: string;
+  narration: string;
+  visualPrompt: string;
+  chapter?: string; // long 16:9 videos only
+}
+
+export interface VideoScript {
+  topic: string;
+  style: string;
+  stylePreset: StylePreset;
+  aspectRatio: AspectRatio;
+  targetDuration: number; // seconds
+  voice: VoiceSettings;
+  captionStyle: CaptionStyle;
+  providers: ProviderSettings;
+  styleBible: StyleBible;
+  referenceImages: ReferenceImage[];
+  useFirstImageAsReference: boolean;
+  seo: SeoMetadata;
+  scenes: ScriptScene[];
+}
+
+export type AssetKind = 'image' | 'audio';
+
+export type AssetJobState = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface AssetJobStatus {
+  sceneIndex: number;
+  kind: AssetKind;
+  state: AssetJobState;
+}
+
+// Structured progress reported by the generation workflow
+export interface GenerationProgress {
+  stage: 'planning' | 'assets';
+  message: string;
+  completed: number; // finished asset jobs
+  total: number; // asset jobs in this run
+  job?: AssetJobStatus; // the job whose state just changed
 }
 
 export enum GenerationStatus {
   IDLE = 'IDLE',
   PLANNING = 'PLANNING',
+  SCRIPT_READY = 'SCRIPT_READY',
   GENERATING_ASSETS = 'GENERATING_ASSETS',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',